@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { MapPin } from 'lucide-react';
+import { PdfPreview, type PdfHighlight } from '@/components/PdfPreview';
+import { profileFields, type ProfileField } from '@shared/extractionProfiles';
+import type { PdfData } from '@shared/form16';
+import { FIELD_SOURCE_LABELS, isInferred } from '@shared/provenance';
+
+const FIELD_LABELS: Record<ProfileField, string> = {
+  date: 'Date',
+  employeeName: 'Employee Name',
+  employeePAN: 'Employee PAN',
+  financialYear: 'Financial Year',
+  assessmentYear: 'Assessment Year'
+};
+
+// Where each header field was read, as a box on a page of the viewed file. Provenance
+// pages count from the start of the uploaded PDF, while a document split out of a
+// combined PDF is a file of its own starting at its first page.
+const fieldHighlights = (data: PdfData): PdfHighlight[] =>
+  profileFields.flatMap(field => {
+    const provenance = data.provenance?.[field];
+    if (!provenance?.page || !provenance.boundingBox) return [];
+    return [{
+      id: field,
+      page: provenance.page - (data.pageRange?.start ?? 1) + 1,
+      boundingBox: provenance.boundingBox,
+      label: `${FIELD_LABELS[field]}: ${data[field]}`
+    }];
+  });
+
+interface DocumentViewerProps {
+  file: File;
+  data: PdfData;
+  passwords: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The source PDF next to the extracted header fields; choosing a field scrolls to the
+// box it was read from
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ file, data, passwords, open, onOpenChange }) => {
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const highlights = fieldHighlights(data);
+  const located = new Set(highlights.map(highlight => highlight.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>{data.employeeName} · {file.name}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 md:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+          {open && (
+            <PdfPreview
+              file={file}
+              passwords={passwords}
+              highlights={highlights}
+              activeHighlight={activeField}
+              onHighlightClick={setActiveField}
+              className="h-[75vh]"
+            />
+          )}
+          <div className="space-y-2">
+            {profileFields.map(field => {
+              const provenance = data.provenance?.[field];
+              const isLocated = located.has(field);
+              return (
+                <button
+                  key={field}
+                  type="button"
+                  disabled={!isLocated}
+                  onClick={() => setActiveField(field)}
+                  className={`w-full text-left p-2 rounded-md border text-sm transition-colors ${
+                    activeField === field
+                      ? 'border-indigo-400 bg-indigo-50'
+                      : isLocated ? 'border-gray-200 hover:bg-gray-50' : 'border-gray-100 text-gray-500 cursor-default'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-500">{FIELD_LABELS[field]}</span>
+                    {isLocated && <MapPin className="h-3 w-3 text-indigo-500 shrink-0" />}
+                  </div>
+                  <div className="font-medium break-words">{data[field]}</div>
+                  {provenance && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-[10px] text-gray-500">
+                      <Badge
+                        variant="outline"
+                        className={`text-[10px] px-1 py-0 ${isInferred(provenance) ? 'border-amber-300 text-amber-700' : ''}`}
+                      >
+                        {FIELD_SOURCE_LABELS[provenance.source]}
+                      </Badge>
+                      {provenance.page && <span>page {provenance.page}</span>}
+                      <span>{Math.round(provenance.confidence * 100)}% confidence</span>
+                      {!isLocated && <span>· not located on the page</span>}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Copy } from 'lucide-react';
+import type { DuplicateGroup, DuplicateResolution, PdfData } from '@shared/form16';
+import { isUnresolved } from '@shared/duplicates';
+
+interface DuplicatePanelProps {
+  documents: { file: File; data: PdfData }[];
+  groups: DuplicateGroup[];
+  resolutions: Record<string, DuplicateResolution>;
+  onResolve: (key: string, resolution: DuplicateResolution) => void;
+}
+
+// Groups of copies and conflicting versions; only the chosen document of each group is uploaded and signed
+export const DuplicatePanel: React.FC<DuplicatePanelProps> = ({ documents, groups, resolutions, onResolve }) => {
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center text-amber-600">
+          <Copy className="h-5 w-5 mr-2" />
+          Duplicates and Conflicts ({groups.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 max-h-80 overflow-y-auto">
+        {groups.map(group => {
+          const resolution = resolutions[group.key];
+          const chosen = resolution?.chosen ?? (group.kind === 'identical' ? group.indices[0] : undefined);
+          const unresolved = isUnresolved(group, resolutions);
+
+          return (
+            <div key={group.key} className={`p-3 border rounded-md ${unresolved ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+              <div className="flex items-center justify-between text-sm mb-2">
+                <strong>{documents[group.indices[0]].data.employeeName}</strong>
+                <Badge variant="outline" className="text-xs">
+                  {group.kind === 'identical' ? 'Identical copies' : 'Conflicting versions'}
+                </Badge>
+              </div>
+              {unresolved && (
+                <p className="text-xs text-red-700 mb-2">Pick the authoritative version before uploading or signing</p>
+              )}
+              <RadioGroup
+                value={chosen === undefined ? '' : String(chosen)}
+                onValueChange={(value) => onResolve(group.key, { chosen: Number(value), revised: resolution?.revised ?? false })}
+              >
+                {group.indices.map(index => {
+                  const { file, data } = documents[index];
+                  const id = `${group.key}-${index}`;
+                  return (
+                    <div key={index} className="flex items-center gap-2 text-xs">
+                      <RadioGroupItem value={String(index)} id={id} />
+                      <Label htmlFor={id} className="text-xs font-normal">
+                        {file.name} · {data.employeePAN} · FY {data.financialYear}
+                        {data.partA.deductorTAN && ` · TAN ${data.partA.deductorTAN}`}
+                        <span className="text-gray-500"> · {data.employeePath}</span>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </RadioGroup>
+              {group.kind === 'conflict' && chosen !== undefined && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Checkbox
+                    id={`${group.key}-revised`}
+                    checked={resolution?.revised ?? false}
+                    onCheckedChange={(checked) => onResolve(group.key, { chosen, revised: checked === true })}
+                  />
+                  <Label htmlFor={`${group.key}-revised`} className="text-xs">Mark the chosen version as revised</Label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,28 +1,68 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { Calendar, User, CreditCard, FileText, Download, Loader2, CheckCircle, AlertCircle, FolderOpen } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calendar, User, CreditCard, FileText, Download, Loader2, CheckCircle, AlertCircle, FolderOpen, Building2, Calculator, Eye } from 'lucide-react';
+import { DocumentViewer } from '@/components/DocumentViewer';
+import { formatIndianAmount } from '@shared/amounts';
+import { DOCUMENT_TYPE_LABELS } from '@shared/documentClassifier';
+import type { PanValidation, PdfData } from '@shared/form16';
+import { FIELD_SOURCE_LABELS, isInferred, type FieldProvenance } from '@shared/provenance';
 
-interface PdfData {
-  date: string;
-  employeeName: string;
-  employeePAN: string;
-  financialYear: string;
-  assessmentYear: string;
-  employeePath: string;
-  uploadStatus?: 'pending' | 'uploading' | 'success' | 'error';
-  uploadId?: string;
-}
+// Marks values that were guessed or defaulted rather than read from the PDF
+const SourceHint: React.FC<{ provenance?: FieldProvenance }> = ({ provenance }) => {
+  if (!provenance) return null;
+  const confidence = `${Math.round(provenance.confidence * 100)}%`;
+  const details = [
+    FIELD_SOURCE_LABELS[provenance.source],
+    provenance.page ? `page ${provenance.page}` : '',
+    provenance.rule || '',
+    `${confidence} confidence`
+  ].filter(Boolean).join(' · ');
+
+  if (!isInferred(provenance)) {
+    return <span className="ml-1 text-[10px] text-gray-400" title={details}>{confidence}</span>;
+  }
+  return (
+    <Badge variant="outline" className="ml-1 text-[10px] px-1 py-0 border-amber-300 text-amber-700" title={details}>
+      {FIELD_SOURCE_LABELS[provenance.source]}
+    </Badge>
+  );
+};
+
+const PAN_STATUS_STYLES: Record<PanValidation['status'], string> = {
+  valid: 'border-green-300 text-green-700',
+  suspicious: 'border-amber-300 text-amber-700',
+  invalid: 'border-red-300 text-red-700'
+};
+
+// Outcome of the PAN format, holder type, surname and folder checks
+const PanStatus: React.FC<{ validation?: PanValidation }> = ({ validation }) => {
+  if (!validation) return null;
+  return (
+    <Badge
+      variant="outline"
+      className={`ml-1 text-[10px] px-1 py-0 capitalize ${PAN_STATUS_STYLES[validation.status]}`}
+      title={validation.reasons.join('\n') || 'PAN passed all checks'}
+    >
+      {validation.status}
+    </Badge>
+  );
+};
 
 interface ExtractedDataProps {
   data: PdfData | null;
   isProcessing: boolean;
+  file?: File; // source document, shown with the fields highlighted
+  passwords?: string[];
 }
 
-export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing }) => {
+export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing, file, passwords = [] }) => {
+  const [viewerOpen, setViewerOpen] = useState(false);
+
   const handleExport = () => {
     if (data) {
       const jsonData = JSON.stringify(data, null, 2);
@@ -51,6 +91,24 @@ export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing
     }
   };
 
+  const partBRows = data?.partB ? [
+    ['Salary u/s 17(1)', data.partB.salary],
+    ['Perquisites u/s 17(2)', data.partB.perquisites],
+    ['Profits in lieu u/s 17(3)', data.partB.profitsInLieuOfSalary],
+    ['Gross Salary', data.partB.grossSalary],
+    ['Exempt u/s 10', data.partB.section10Exemptions],
+    ['Standard Deduction', data.partB.standardDeduction],
+    ['Professional Tax', data.partB.professionalTax],
+    ['Chapter VI-A', data.partB.totalChapterVIA],
+    ['Total Taxable Income', data.partB.totalTaxableIncome],
+    ['Tax on Income', data.partB.taxOnIncome],
+    ['Rebate u/s 87A', data.partB.rebate87A],
+    ['Surcharge', data.partB.surcharge],
+    ['Health & Education Cess', data.partB.cess],
+    ['Relief u/s 89', data.partB.relief89],
+    ['Net Tax Payable', data.partB.netTaxPayable]
+  ] as const : [];
+
   if (isProcessing) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
@@ -77,13 +135,40 @@ export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing
           <CardTitle className="flex items-center text-lg">
             <FileText className="h-5 w-5 mr-2 text-indigo-600" />
             {data.employeeName}
+            <SourceHint provenance={data.provenance?.employeeName} />
           </CardTitle>
-          {getStatusBadge(data.uploadStatus)}
+          <div className="flex items-center gap-2">
+            {data.documentType && (
+              <Badge variant="outline" className="text-xs border-indigo-300 text-indigo-700">
+                {DOCUMENT_TYPE_LABELS[data.documentType]}
+              </Badge>
+            )}
+            {data.textSource === 'ocr' && (
+              <Badge variant="outline" className="text-xs border-amber-300 text-amber-700" title="Text recognised from a scanned page">
+                OCR
+              </Badge>
+            )}
+            {data.manualCorrection && (
+              <Badge
+                variant="outline"
+                className="text-xs border-blue-300 text-blue-700"
+                title={`Corrected ${new Date(data.manualCorrection.correctedAt).toLocaleString()}; extracted as ${data.manualCorrection.original.employeeName}, ${data.manualCorrection.original.employeePAN}, FY ${data.manualCorrection.original.financialYear}`}
+              >
+                Manually corrected
+              </Badge>
+            )}
+            {getStatusBadge(data.uploadStatus)}
+          </div>
         </div>
         {data.employeePath && (
           <div className="flex items-center text-sm text-gray-600">
             <FolderOpen className="h-4 w-4 mr-1" />
             {data.employeePath}
+            {data.pageRange && data.pageRange.end > 1 && (
+              <span className="ml-2 text-xs text-gray-500">
+                (pages {data.pageRange.start}-{data.pageRange.end})
+              </span>
+            )}
           </div>
         )}
       </CardHeader>
@@ -94,7 +179,10 @@ export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing
               <Calendar className="h-3 w-3 text-gray-500 mr-1" />
               <span className="font-medium text-gray-700">Date:</span>
             </div>
-            <Badge variant="secondary" className="text-xs">{data.date}</Badge>
+            <div className="flex items-center">
+              <Badge variant="secondary" className="text-xs">{data.date}</Badge>
+              <SourceHint provenance={data.provenance?.date} />
+            </div>
           </div>
           
           <div className="flex items-center justify-between">
@@ -102,15 +190,27 @@ export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing
               <CreditCard className="h-3 w-3 text-gray-500 mr-1" />
               <span className="font-medium text-gray-700">PAN:</span>
             </div>
-            <Badge variant="outline" className="text-xs">{data.employeePAN}</Badge>
+            <div className="flex items-center">
+              <Badge variant="outline" className="text-xs">{data.employeePAN}</Badge>
+              <SourceHint provenance={data.provenance?.employeePAN} />
+              <PanStatus validation={data.panValidation} />
+            </div>
           </div>
+          {data.panValidation && data.panValidation.status !== 'valid' && (
+            <ul className="text-xs text-gray-600 list-disc pl-5">
+              {data.panValidation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
           
           <div className="flex items-center justify-between">
             <div className="flex items-center">
               <Calendar className="h-3 w-3 text-gray-500 mr-1" />
               <span className="font-medium text-gray-700">FY:</span>
             </div>
-            <Badge variant="secondary" className="text-xs">{data.financialYear}</Badge>
+            <div className="flex items-center">
+              <Badge variant="secondary" className="text-xs">{data.financialYear}</Badge>
+              <SourceHint provenance={data.provenance?.financialYear} />
+            </div>
           </div>
           
           <div className="flex items-center justify-between">
@@ -118,27 +218,134 @@ export const ExtractedData: React.FC<ExtractedDataProps> = ({ data, isProcessing
               <Calendar className="h-3 w-3 text-gray-500 mr-1" />
               <span className="font-medium text-gray-700">AY:</span>
             </div>
-            <Badge variant="secondary" className="text-xs">{data.assessmentYear}</Badge>
+            <div className="flex items-center">
+              <Badge variant="secondary" className="text-xs">{data.assessmentYear}</Badge>
+              <SourceHint provenance={data.provenance?.assessmentYear} />
+            </div>
           </div>
         </div>
         
+        {data.partA && (data.partA.deductorTAN || data.partA.quarters.length > 0) && (
+          <div className="pt-2 border-t space-y-2">
+            <div className="flex items-center text-sm font-medium text-gray-700">
+              <Building2 className="h-3 w-3 text-gray-500 mr-1" />
+              Part A
+            </div>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+              <span className="text-gray-500">Certificate No.</span>
+              <span className="text-gray-900">{data.partA.certificateNumber || '-'}</span>
+              <span className="text-gray-500">Deductor</span>
+              <span className="text-gray-900">{data.partA.deductorName || '-'}</span>
+              {data.partA.deductorAddress && (
+                <>
+                  <span className="text-gray-500">Address</span>
+                  <span className="text-gray-900">{data.partA.deductorAddress}</span>
+                </>
+              )}
+              <span className="text-gray-500">TAN / PAN of Deductor</span>
+              <span className="text-gray-900">{data.partA.deductorTAN || '-'} / {data.partA.deductorPAN || '-'}</span>
+              <span className="text-gray-500">CIT (TDS)</span>
+              <span className="text-gray-900">{data.partA.citTds || '-'}</span>
+              <span className="text-gray-500">Period with Employer</span>
+              <span className="text-gray-900">
+                {data.partA.periodFrom ? `${data.partA.periodFrom} to ${data.partA.periodTo}` : '-'}
+              </span>
+            </div>
+            {data.partA.quarters.length > 0 && (
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">Quarter</TableHead>
+                    <TableHead className="h-8 px-2">Receipt No.</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Paid</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Deducted</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Remitted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.partA.quarters.map((entry, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="p-2">{entry.quarter}</TableCell>
+                      <TableCell className="p-2">{entry.receiptNumber || '-'}</TableCell>
+                      <TableCell className="p-2 text-right">{formatIndianAmount(entry.amountPaid)}</TableCell>
+                      <TableCell className="p-2 text-right">{formatIndianAmount(entry.taxDeducted)}</TableCell>
+                      <TableCell className="p-2 text-right">{formatIndianAmount(entry.taxRemitted)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell className="p-2" colSpan={2}>Total</TableCell>
+                    <TableCell className="p-2 text-right">{formatIndianAmount(data.partA.totalAmountPaid)}</TableCell>
+                    <TableCell className="p-2 text-right">{formatIndianAmount(data.partA.totalTaxDeducted)}</TableCell>
+                    <TableCell className="p-2 text-right">{formatIndianAmount(data.partA.totalTaxRemitted)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {data.partB && (data.partB.grossSalary > 0 || data.partB.netTaxPayable > 0) && (
+          <div className="pt-2 border-t space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center text-sm font-medium text-gray-700">
+                <Calculator className="h-3 w-3 text-gray-500 mr-1" />
+                Part B
+              </div>
+              <Badge variant="outline" className="text-xs">
+                {data.partB.taxRegime === 'new' ? 'New Regime (115BAC)' : data.partB.taxRegime === 'old' ? 'Old Regime' : 'Regime Unknown'}
+              </Badge>
+            </div>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+              {partBRows.map(([label, amount]) => (
+                <React.Fragment key={label}>
+                  <span className="text-gray-500">{label}</span>
+                  <span className="text-gray-900 text-right">{formatIndianAmount(amount)}</span>
+                </React.Fragment>
+              ))}
+            </div>
+            {data.partB.chapterVIA.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {data.partB.chapterVIA.map((deduction) => (
+                  <Badge key={deduction.section} variant="secondary" className="text-xs">
+                    {deduction.section}: {formatIndianAmount(deduction.deductibleAmount)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {data.uploadId && (
           <div className="pt-2 border-t">
             <p className="text-xs text-gray-500">Upload ID: {data.uploadId}</p>
           </div>
         )}
         
-        <div className="pt-2">
+        <div className="pt-2 flex gap-2">
+          {file && (
+            <Button
+              onClick={() => setViewerOpen(true)}
+              size="sm"
+              variant="outline"
+              className="flex-1"
+            >
+              <Eye className="h-3 w-3 mr-1" />
+              View Document
+            </Button>
+          )}
           <Button 
             onClick={handleExport} 
             size="sm"
             variant="outline"
-            className="w-full"
+            className="flex-1"
           >
             <Download className="h-3 w-3 mr-1" />
             Export JSON
           </Button>
         </div>
+        {file && (
+          <DocumentViewer file={file} data={data} passwords={passwords} open={viewerOpen} onOpenChange={setViewerOpen} />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,387 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings2, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  assignCompanyProfile,
+  createProfile,
+  deleteProfile,
+  fetchCompanyProfiles,
+  fetchProfiles,
+  removeCompanyProfile,
+  updateProfile
+} from '@/services/extractionProfileService';
+import {
+  DEFAULT_PROFILE,
+  postProcessSteps,
+  type FieldDefinition,
+  type FieldLocator,
+  type PageScope,
+  type PostProcessStep
+} from '@shared/extractionProfiles';
+import type { ExtractionProfile, InsertExtractionProfile } from '@shared/schema';
+
+const FIELD_LABELS: Record<FieldDefinition['field'], string> = {
+  date: 'Date',
+  employeeName: 'Employee Name',
+  employeePAN: 'Employee PAN',
+  financialYear: 'Financial Year',
+  assessmentYear: 'Assessment Year'
+};
+
+const NO_PROFILE = 'none';
+const TEXT_LOCATOR = 'text';
+
+type LocatorKind = FieldLocator['kind'] | typeof TEXT_LOCATOR;
+
+const newLocator = (kind: LocatorKind): FieldLocator | undefined => {
+  if (kind === 'tableColumn') return { kind, table: '^Quarter', column: 'Receipt', row: 1 };
+  return kind === TEXT_LOCATOR ? undefined : { kind };
+};
+
+type PageRange = Exclude<PageScope, string>;
+type TableLocator = Extract<FieldLocator, { kind: 'tableColumn' }>;
+
+interface ProfileEditorProps {
+  profile: ExtractionProfile | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (profile: InsertExtractionProfile) => void;
+}
+
+const pageScopeValue = (scope: PageScope) => typeof scope === 'string' ? scope : 'range';
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, open, onOpenChange, onSave }) => {
+  const [name, setName] = useState(profile?.name || '');
+  const [description, setDescription] = useState(profile?.description || '');
+  const [fields, setFields] = useState<FieldDefinition[]>(profile?.fields || DEFAULT_PROFILE.fields);
+
+  const updateField = (index: number, update: Partial<FieldDefinition>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...update } : field));
+  };
+
+  const togglePostProcess = (index: number, step: PostProcessStep, enabled: boolean) => {
+    const current = fields[index].postProcess;
+    updateField(index, {
+      postProcess: enabled ? [...current, step] : current.filter(existing => existing !== step)
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{profile ? `Edit ${profile.name}` : 'New Extraction Profile'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input id="profile-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Keka" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="profile-description">Description</Label>
+            <Input id="profile-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {fields.map((field, index) => (
+            <div key={field.field} className="p-3 border rounded-md space-y-2">
+              <div className="font-medium text-sm text-gray-900">{FIELD_LABELS[field.field]}</div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Label synonyms (comma separated)</Label>
+                  <Input
+                    value={field.labels.join(', ')}
+                    onChange={(e) => updateField(index, {
+                      labels: e.target.value.split(',').map(label => label.trim()).filter(Boolean)
+                    })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Value pattern (regular expression)</Label>
+                  <Input
+                    className="font-mono text-xs"
+                    value={field.valuePattern}
+                    onChange={(e) => updateField(index, { valuePattern: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={pageScopeValue(field.pageScope)}
+                  onValueChange={(value) => updateField(index, {
+                    pageScope: value === 'range' ? { from: 1 } : value as PageScope
+                  })}
+                >
+                  <SelectTrigger className="w-36 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All pages</SelectItem>
+                    <SelectItem value="first">First page</SelectItem>
+                    <SelectItem value="last">Last page</SelectItem>
+                    <SelectItem value="range">Page range</SelectItem>
+                  </SelectContent>
+                </Select>
+                {typeof field.pageScope === 'object' && (
+                  <div className="flex items-center gap-1 text-xs">
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-16 h-8 text-xs"
+                      value={field.pageScope.from}
+                      onChange={(e) => updateField(index, {
+                        pageScope: { ...(field.pageScope as PageRange), from: Number(e.target.value) || 1 }
+                      })}
+                    />
+                    to
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-16 h-8 text-xs"
+                      value={field.pageScope.to ?? ''}
+                      onChange={(e) => updateField(index, {
+                        pageScope: { ...(field.pageScope as PageRange), to: e.target.value ? Number(e.target.value) : undefined }
+                      })}
+                    />
+                  </div>
+                )}
+                <Select
+                  value={field.locator?.kind ?? TEXT_LOCATOR}
+                  onValueChange={(value) => updateField(index, { locator: newLocator(value as LocatorKind) })}
+                >
+                  <SelectTrigger className="w-40 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TEXT_LOCATOR}>Text after label</SelectItem>
+                    <SelectItem value="rightOf">Right of label</SelectItem>
+                    <SelectItem value="below">Below label</SelectItem>
+                    <SelectItem value="tableColumn">Table column</SelectItem>
+                  </SelectContent>
+                </Select>
+                {field.locator?.kind === 'tableColumn' && (
+                  <div className="flex items-center gap-1 text-xs">
+                    <Input
+                      className="w-28 h-8 font-mono text-xs"
+                      placeholder="Table header"
+                      value={field.locator.table}
+                      onChange={(e) => updateField(index, {
+                        locator: { ...(field.locator as TableLocator), table: e.target.value }
+                      })}
+                    />
+                    <Input
+                      className="w-28 h-8 font-mono text-xs"
+                      placeholder="Column"
+                      value={field.locator.column}
+                      onChange={(e) => updateField(index, {
+                        locator: { ...(field.locator as TableLocator), column: e.target.value }
+                      })}
+                    />
+                    row
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-16 h-8 text-xs"
+                      value={field.locator.row}
+                      onChange={(e) => updateField(index, {
+                        locator: { ...(field.locator as TableLocator), row: Number(e.target.value) || 1 }
+                      })}
+                    />
+                  </div>
+                )}
+                {postProcessSteps.map(step => (
+                  <label key={step} className="flex items-center gap-1 text-xs text-gray-600">
+                    <Checkbox
+                      checked={field.postProcess.includes(step)}
+                      onCheckedChange={(checked) => togglePostProcess(index, step, checked === true)}
+                    />
+                    {step}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave({ name, description, fields })} disabled={!name.trim()}>
+            Save Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ExtractionProfileManagerProps {
+  companyNames: string[];
+}
+
+export const ExtractionProfileManager: React.FC<ExtractionProfileManagerProps> = ({ companyNames }) => {
+  const [editing, setEditing] = useState<ExtractionProfile | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [newCompany, setNewCompany] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: profiles = [] } = useQuery({ queryKey: ['/api/profiles'], queryFn: fetchProfiles });
+  const { data: assignments = [] } = useQuery({ queryKey: ['/api/company-profiles'], queryFn: fetchCompanyProfiles });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Profile update failed', description: error.message, variant: 'destructive' });
+  };
+
+  const saveProfile = useMutation({
+    mutationFn: (profile: InsertExtractionProfile) =>
+      editing ? updateProfile(editing.id, profile) : createProfile(profile),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/profiles'] });
+      setEditorOpen(false);
+    },
+    onError
+  });
+
+  const removeProfile = useMutation({
+    mutationFn: deleteProfile,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/company-profiles'] });
+    },
+    onError
+  });
+
+  const assignProfile = useMutation({
+    mutationFn: async ({ companyName, profileId }: { companyName: string; profileId: number | null }) => {
+      if (profileId === null) {
+        await removeCompanyProfile(companyName);
+      } else {
+        await assignCompanyProfile(companyName, profileId);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/company-profiles'] }),
+    onError
+  });
+
+  const companies = Array.from(new Set([
+    ...companyNames,
+    ...assignments.map(assignment => assignment.companyName)
+  ])).filter(Boolean).sort();
+
+  const openEditor = (profile: ExtractionProfile | null) => {
+    setEditing(profile);
+    setEditorOpen(true);
+  };
+
+  const addCompany = () => {
+    const companyName = newCompany.trim();
+    const defaultProfile = profiles[0];
+    if (companyName && defaultProfile) {
+      assignProfile.mutate({ companyName, profileId: defaultProfile.id });
+      setNewCompany('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center text-lg">
+            <Settings2 className="h-5 w-5 mr-2 text-indigo-600" />
+            Extraction Profiles
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => openEditor(null)}>
+            <Plus className="h-3 w-3 mr-1" />
+            New Profile
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center justify-between p-2 border rounded-md">
+              <div>
+                <div className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  {profile.name}
+                  {profile.builtIn && <Badge variant="secondary" className="text-xs">Built-in</Badge>}
+                </div>
+                {profile.description && <div className="text-xs text-gray-500">{profile.description}</div>}
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" onClick={() => openEditor(profile)}>
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                {!profile.builtIn && (
+                  <Button size="sm" variant="ghost" onClick={() => removeProfile.mutate(profile.id)}>
+                    <Trash2 className="h-3 w-3 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="text-sm font-medium text-gray-700">Profile per company folder</div>
+          {companies.map(companyName => {
+            const assignment = assignments.find(entry => entry.companyName === companyName);
+            return (
+              <div key={companyName} className="flex items-center justify-between gap-2">
+                <span className="text-sm text-gray-700 truncate">{companyName}</span>
+                <Select
+                  value={assignment ? String(assignment.profileId) : NO_PROFILE}
+                  onValueChange={(value) => assignProfile.mutate({
+                    companyName,
+                    profileId: value === NO_PROFILE ? null : Number(value)
+                  })}
+                >
+                  <SelectTrigger className="w-44 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROFILE}>Default</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+          <div className="flex gap-2">
+            <Input
+              className="h-8 text-sm"
+              placeholder="Company folder name"
+              value={newCompany}
+              onChange={(e) => setNewCompany(e.target.value)}
+            />
+            <Button size="sm" variant="outline" onClick={addCompany} disabled={!newCompany.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      {editorOpen && (
+        <ProfileEditor
+          key={editing?.id ?? 'new'}
+          profile={editing}
+          open={editorOpen}
+          onOpenChange={setEditorOpen}
+          onSave={(profile) => saveProfile.mutate(profile)}
+        />
+      )}
+    </Card>
+  );
+};
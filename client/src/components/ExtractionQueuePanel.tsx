@@ -0,0 +1,103 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ListChecks, Pause, Play, RotateCcw, Square } from 'lucide-react';
+import type { ExtractionJob, JobState } from '@/hooks/use-extraction-queue';
+
+const STATE_STYLES: Record<JobState, string> = {
+  queued: 'border-gray-300 text-gray-600',
+  extracting: 'border-indigo-300 text-indigo-700',
+  done: 'border-green-300 text-green-700',
+  failed: 'border-red-300 text-red-700',
+  cancelled: 'border-amber-300 text-amber-700'
+};
+
+interface ExtractionQueuePanelProps {
+  jobs: ExtractionJob[];
+  progress: number;
+  isPaused: boolean;
+  isRunning: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetry: (id: string) => void;
+}
+
+export const ExtractionQueuePanel: React.FC<ExtractionQueuePanelProps> = ({
+  jobs,
+  progress,
+  isPaused,
+  isRunning,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry
+}) => {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const count = (state: JobState) => jobs.filter(job => job.state === state).length;
+  const hasPending = count('queued') > 0 || count('extracting') > 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center text-lg">
+            <ListChecks className="h-5 w-5 mr-2 text-indigo-600" />
+            Extraction Queue
+          </CardTitle>
+          <div className="flex gap-2">
+            {isPaused ? (
+              <Button size="sm" variant="outline" onClick={onResume}>
+                <Play className="h-3 w-3 mr-1" />
+                Resume
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={onPause} disabled={!isRunning}>
+                <Pause className="h-3 w-3 mr-1" />
+                Pause
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={onCancel} disabled={!hasPending}>
+              <Square className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={progress} className="h-2" />
+        <div className="text-xs text-gray-600">
+          {count('done')} done · {count('extracting')} extracting · {count('queued')} queued
+          {count('failed') > 0 && ` · ${count('failed')} failed`}
+          {count('cancelled') > 0 && ` · ${count('cancelled')} cancelled`}
+          {isPaused && ' · paused'}
+        </div>
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {jobs.filter(job => job.state !== 'done').map(job => (
+            <div key={job.id} className="flex items-center justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <div className="truncate" title={`${job.employeePath}/${job.file.name}`}>{job.file.name}</div>
+                {job.error && <div className="text-red-600 truncate" title={job.error}>{job.error}</div>}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Badge variant="outline" className={`text-[10px] capitalize ${STATE_STYLES[job.state]}`}>
+                  {job.state}
+                </Badge>
+                {(job.state === 'failed' || job.state === 'cancelled') && (
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => onRetry(job.id)} title="Retry">
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,27 +1,48 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertTriangle, Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Download, Pencil } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { PanCorrectionEditor } from '@/components/PanCorrectionEditor';
+import type { CorrectableField, PdfData } from '@shared/form16';
+
+type FailureReason = 'pan' | 'decrypt' | 'skipped';
+
+const FAILURE_LABELS: Record<FailureReason, string> = {
+  pan: 'Invalid PAN',
+  decrypt: 'Failed to decrypt',
+  skipped: 'Unreadable archive entry' // from ZIPs extracted by the server's inbox
+};
 
 interface FailedPanExtraction {
+  reason: FailureReason;
+  details: string;
   fileName: string;
   employeePath: string;
   employeeName: string;
   companyName: string;
   extractedText: string;
+  file?: File; // kept for PAN failures so they can be corrected
+  data?: PdfData;
 }
 
 interface FailedPanListProps {
   failedExtractions: FailedPanExtraction[];
+  onCorrect: (index: number, values: Pick<PdfData, CorrectableField>) => void;
+  getPreviewPasswords: (failed: FailedPanExtraction) => string[];
 }
 
-export const FailedPanList: React.FC<FailedPanListProps> = ({ failedExtractions }) => {
+export const FailedPanList: React.FC<FailedPanListProps> = ({ failedExtractions, onCorrect, getPreviewPasswords }) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
   const handleDownloadExcel = () => {
     if (failedExtractions.length === 0) return;
 
     const excelData = failedExtractions.map(failed => ({
+      'Reason': FAILURE_LABELS[failed.reason],
+      'Details': failed.details,
       'Employee Name': failed.employeeName,
       'Company Name': failed.companyName,
       'File Path': failed.employeePath,
@@ -45,7 +66,7 @@ export const FailedPanList: React.FC<FailedPanListProps> = ({ failedExtractions
         <div className="flex items-center justify-between">
           <CardTitle className="flex items-center text-red-600">
             <AlertTriangle className="h-5 w-5 mr-2" />
-            Failed PAN Extractions ({failedExtractions.length})
+            Failed Extractions ({failedExtractions.length})
           </CardTitle>
           <Button onClick={handleDownloadExcel} variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
@@ -54,15 +75,40 @@ export const FailedPanList: React.FC<FailedPanListProps> = ({ failedExtractions
         </div>
       </CardHeader>
       <CardContent>
-        <div className="space-y-2 max-h-60 overflow-y-auto">
+        <div className={`space-y-2 overflow-y-auto ${editingIndex === null ? 'max-h-60' : 'max-h-[48rem]'}`}>
           {failedExtractions.map((failed, index) => (
-            <div key={index} className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <div key={`${failed.employeePath}/${failed.fileName}/${index}`} className="p-3 bg-red-50 border border-red-200 rounded-md">
               <div className="text-sm">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="mb-1 border-red-300 text-red-700">
+                    {FAILURE_LABELS[failed.reason]}
+                  </Badge>
+                  {failed.file && failed.data && editingIndex !== index && (
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => setEditingIndex(index)}>
+                      <Pencil className="h-3 w-3 mr-1" />
+                      Correct
+                    </Button>
+                  )}
+                </div>
                 <div><strong>Employee:</strong> {failed.employeeName}</div>
                 <div><strong>Company:</strong> {failed.companyName}</div>
                 <div><strong>File:</strong> {failed.fileName}</div>
                 <div className="text-xs text-gray-600 mt-1">Path: {failed.employeePath}</div>
+                <div className="text-xs text-red-700 mt-1">{failed.details}</div>
               </div>
+              {editingIndex === index && failed.file && failed.data && (
+                <PanCorrectionEditor
+                  file={failed.file}
+                  data={failed.data}
+                  extractedText={failed.extractedText}
+                  passwords={getPreviewPasswords(failed)}
+                  onApply={values => {
+                    setEditingIndex(null);
+                    onCorrect(index, values);
+                  }}
+                  onCancel={() => setEditingIndex(null)}
+                />
+              )}
             </div>
           ))}
         </div>
@@ -1,49 +1,98 @@
-
 import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, Loader2, AlertCircle, Folder } from 'lucide-react';
+import { Upload, FileText, Loader2, AlertCircle, Folder, Play, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PathMappingPreview } from '@/components/PathMappingPreview';
+import { folderOf, relativePathOf } from '@/services/droppedFiles';
+import { isPdfFileName, isZipFileName, listArchivePdfs, type SkippedEntry } from '@shared/zipArchive';
+import {
+  BUILT_IN_PATH_TEMPLATES,
+  DEFAULT_PATH_TEMPLATE,
+  pathTemplateError,
+  resolvePathFields,
+  type PathFields
+} from '@shared/pathTemplates';
+
+const CUSTOM_TEMPLATE = 'custom';
+
+interface StagedFile {
+  file: File;
+  folder: string; // '' for a PDF dropped without a folder
+}
 
 interface FileUploadProps {
-  onFileUpload: (file: File, employeePath: string) => void;
+  onFilesUpload: (files: { file: File; employeePath: string; pathFields: PathFields }[]) => void;
   isProcessing: boolean;
   error: string | null;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
-  onFileUpload,
+  onFilesUpload,
   isProcessing,
   error
 }) => {
   const [dragActive, setDragActive] = useState(false);
+  const [skippedEntries, setSkippedEntries] = useState<SkippedEntry[]>([]);
+  const [staged, setStaged] = useState<StagedFile[]>([]);
+  const [templateChoice, setTemplateChoice] = useState(DEFAULT_PATH_TEMPLATE);
+  const [customPattern, setCustomPattern] = useState('');
+  const [companyName, setCompanyName] = useState('');
+
+  const pattern = templateChoice === CUSTOM_TEMPLATE ? customPattern : templateChoice;
+  const templateError = pathTemplateError(pattern);
+  const hasLooseFiles = staged.some(item => !item.folder);
+  const missingCompany = hasLooseFiles && !companyName.trim();
+  // Loose PDFs are filed under the company name typed in for the upload
+  const employeePathOf = (item: StagedFile) => item.folder || companyName.trim();
 
   const findPdfInFolder = useCallback(async (files: File[]) => {
-    console.log('Processing files:', files.map(f => f.webkitRelativePath || f.name));
+    console.log('Processing files:', files.map(relativePathOf));
     
-    // Find PDF files in subfolder structure
-    const pdfFiles = files.filter(file => {
-      const path = file.webkitRelativePath || file.name;
-      return file.type === 'application/pdf' && path.includes('/');
-    });
+    // PDFs may sit in a folder tree or be dropped loose; ZIP archives may also be dropped on their own
+    const pdfFiles = files.filter(file => isPdfFileName(file.name));
+    const zipFiles = files.filter(file => isZipFileName(file.name));
 
-    console.log('Found PDF files:', pdfFiles.map(f => f.webkitRelativePath));
+    console.log('Found PDF files:', pdfFiles.map(relativePathOf));
 
-    if (pdfFiles.length === 0) {
-      throw new Error('No PDF files found in the uploaded folder structure');
+    if (pdfFiles.length === 0 && zipFiles.length === 0) {
+      throw new Error('No PDF or ZIP files found in the uploaded folder structure');
     }
 
-    // Process each PDF file found
-    for (const pdfFile of pdfFiles) {
-      const path = pdfFile.webkitRelativePath;
-      const pathParts = path.split('/');
-      if (pathParts.length >= 2) {
-        // Use all but the last part (file name) as employeePath
-        const employeePath = pathParts.slice(0, -1).join('/');
-        onFileUpload(pdfFile, employeePath);
+    // Files are staged until the path template has been checked against them
+    const found: StagedFile[] = pdfFiles.map(file => ({ file, folder: folderOf(relativePathOf(file)) }));
+
+    // Archive paths continue the folder path; entries are inflated one at a time
+    const skipped: SkippedEntry[] = [];
+    for (const zipFile of zipFiles) {
+      const archivePath = relativePathOf(zipFile);
+      try {
+        const contents = await listArchivePdfs(zipFile, archivePath);
+        for (const pdf of contents.pdfs) {
+          const file = new File([await pdf.read()], pdf.fileName, { type: 'application/pdf' });
+          found.push({ file, folder: pdf.employeePath });
+        }
+        skipped.push(...contents.skipped);
+      } catch (err) {
+        skipped.push({ path: archivePath, reason: err instanceof Error ? err.message : String(err) });
       }
     }
-  }, [onFileUpload]);
+    setSkippedEntries(skipped);
+    setStaged(found);
+  }, []);
+
+  // The extraction queue limits how many of these are processed at once
+  const startExtraction = () => {
+    onFilesUpload(staged.map(item => ({
+      file: item.file,
+      employeePath: employeePathOf(item),
+      pathFields: resolvePathFields(employeePathOf(item), pattern, companyName)
+    })));
+    setStaged([]);
+  };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     try {
@@ -92,15 +141,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             {isDragActive ? (
               <>
                 <Upload className="h-12 w-12 text-indigo-600 mb-4" />
-                <p className="text-lg font-medium text-indigo-600">Drop the folder here</p>
+                <p className="text-lg font-medium text-indigo-600">Drop the folder or ZIP here</p>
               </>
             ) : (
               <>
                 <Folder className="h-12 w-12 text-gray-400 mb-4" />
                 <p className="text-lg font-medium text-gray-700 mb-2">
-                  Drag and drop your company folder here
+                  Drag and drop your company folder or ZIP here
                 </p>
-                <p className="text-sm text-gray-500 mb-4">or click to select a folder</p>
+                <p className="text-sm text-gray-500 mb-4">or click to select a folder or ZIP archives</p>
                 <Button variant="outline" className="mx-auto">
                   Choose Folder
                 </Button>
@@ -130,6 +179,72 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         </label>
       </div>
 
+      {staged.length > 0 && (
+        <div className="space-y-3 rounded-lg border border-gray-200 p-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700">
+              {staged.length} PDF{staged.length === 1 ? '' : 's'} ready
+              {hasLooseFiles && ` (${staged.filter(item => !item.folder).length} without a folder)`}
+            </p>
+            <Button size="sm" variant="ghost" onClick={() => setStaged([])}>
+              <X className="h-3 w-3 mr-1" />
+              Clear
+            </Button>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Folder layout</Label>
+              <Select value={templateChoice} onValueChange={setTemplateChoice}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUILT_IN_PATH_TEMPLATES.map(template => (
+                    <SelectItem key={template.pattern} value={template.pattern}>
+                      {template.name} <span className="text-gray-500 font-mono text-xs">{template.pattern}</span>
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_TEMPLATE}>Custom…</SelectItem>
+                </SelectContent>
+              </Select>
+              {templateChoice === CUSTOM_TEMPLATE && (
+                <Input
+                  value={customPattern}
+                  onChange={event => setCustomPattern(event.target.value)}
+                  placeholder="{company}/{fy}/{empCode} - {employee}"
+                  className="font-mono text-xs"
+                />
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="upload-company">Company name{hasLooseFiles ? '' : ' (optional)'}</Label>
+              <Input
+                id="upload-company"
+                value={companyName}
+                onChange={event => setCompanyName(event.target.value)}
+                placeholder="Used for loose PDFs and templates without {company}"
+              />
+            </div>
+          </div>
+          {templateError ? (
+            <p className="text-xs text-red-600">{templateError}</p>
+          ) : (
+            <PathMappingPreview
+              employeePaths={staged.map(employeePathOf).filter(Boolean)}
+              pattern={pattern}
+              companyName={companyName}
+            />
+          )}
+          {missingCompany && (
+            <p className="text-xs text-amber-700">Type the company name these loose PDFs belong to</p>
+          )}
+          <Button onClick={startExtraction} disabled={isProcessing || !!templateError || missingCompany}>
+            <Play className="h-4 w-4 mr-2" />
+            Start extraction
+          </Button>
+        </div>
+      )}
+
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -137,8 +252,26 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         </Alert>
       )}
 
+      {skippedEntries.length > 0 && (
+        <Alert>
+          <FileText className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium mb-1">Skipped {skippedEntries.length} archive entr{skippedEntries.length === 1 ? 'y' : 'ies'}</p>
+            <ul className="text-xs space-y-0.5 max-h-32 overflow-y-auto">
+              {skippedEntries.map((entry, index) => (
+                <li key={index} className="truncate" title={entry.path}>
+                  {entry.path} <span className="text-gray-500">({entry.reason})</span>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="text-xs text-gray-500 text-center">
-        <p>Expected structure: Company Folder → Employee Subfolder → PDF files</p>
+        <p>Expected structure: Company Folder → Employee Subfolder → PDF files, or pick another folder layout</p>
+        <p>ZIP archives (nested too) are unpacked, their internal folders giving the company and employee</p>
+        <p>PDFs dropped without a folder are filed under the company name you type in</p>
         <p>Example: GreeneStep Technologies Pvt Ltd/Amul Khandekar/Amul_Khandekar_Form16.pdf</p>
       </div>
     </div>
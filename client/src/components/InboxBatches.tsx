@@ -0,0 +1,117 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Download, Inbox } from 'lucide-react';
+import { fetchInboxStatus } from '@/services/inboxService';
+import { isInboxBatchRunning, type InboxBatch } from '@shared/inbox';
+
+// How often the page asks for inbox progress
+const POLL_INTERVAL = 5000;
+
+const downloadResults = (batch: InboxBatch) => {
+  const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(batch.documents, null, 2));
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', dataUri);
+  linkElement.setAttribute('download', `inbox_batch_${batch.id}.json`);
+  linkElement.click();
+};
+
+const InboxBatchRow: React.FC<{ batch: InboxBatch }> = ({ batch }) => {
+  const { files } = batch.inbox;
+  const processed = files.filter(file => file.status === 'done' || file.status === 'failed').length;
+  const failed = files.filter(file => file.status === 'failed');
+  const running = isInboxBatchRunning(batch.inbox);
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-md space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <div>
+          <strong>Batch {batch.id}</strong>
+          <span className="text-xs text-gray-500 ml-2">{new Date(batch.createdAt).toLocaleString()}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Badge variant="outline" className={running ? 'border-indigo-300 text-indigo-700' : 'border-green-300 text-green-700'}>
+            {running ? 'Extracting' : 'Finished'}
+          </Badge>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2"
+            onClick={() => downloadResults(batch)}
+            disabled={batch.documents.length === 0}
+            title="Export results as JSON"
+          >
+            <Download className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      {running && <Progress value={Math.round((processed / files.length) * 100)} className="h-2" />}
+      <div className="text-xs text-gray-600">
+        {processed}/{files.length} files · {batch.documentCount} document{batch.documentCount === 1 ? '' : 's'} extracted
+        {failed.length > 0 && ` · ${failed.length} moved to failed/`}
+      </div>
+      {batch.documents.length > 0 && (
+        <div className="space-y-1 max-h-32 overflow-y-auto">
+          {batch.documents.map(document => (
+            <div key={document.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate" title={`${document.employeePath}/${document.fileName}`}>
+                {document.employeeName} · {document.employeePAN} · FY {document.financialYear}
+              </span>
+              {document.panStatus !== 'valid' && (
+                <Badge variant="outline" className="text-[10px] border-amber-300 text-amber-700 shrink-0">
+                  PAN {document.panStatus}
+                </Badge>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {failed.length > 0 && (
+        <ul className="text-xs space-y-0.5 max-h-24 overflow-y-auto">
+          {failed.map(file => (
+            <li key={file.path} className="truncate text-red-700" title={file.reason}>
+              {file.path} <span className="text-gray-500">({file.reason})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Files extracted on the server from the watched inbox folder, newest batch first
+export const InboxBatches: React.FC = () => {
+  const { data: status } = useQuery({
+    queryKey: ['/api/inbox'],
+    queryFn: fetchInboxStatus,
+    refetchInterval: query => query.state.data?.enabled ? POLL_INTERVAL : false
+  });
+
+  if (!status?.enabled) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <Inbox className="h-5 w-5 mr-2 text-indigo-600" />
+          Inbox
+        </CardTitle>
+        <p className="text-xs text-gray-500 truncate" title={status.directory}>
+          Watching {status.directory}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2 max-h-96 overflow-y-auto">
+        {status.batches.length === 0 ? (
+          <p className="text-sm text-gray-500">No files have arrived yet</p>
+        ) : (
+          status.batches.map(batch => <InboxBatchRow key={batch.id} batch={batch} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+};
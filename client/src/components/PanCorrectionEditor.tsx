@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Search } from 'lucide-react';
+import { PdfPreview } from '@/components/PdfPreview';
+import { applyManualCorrection, type CorrectableField, type PdfData } from '@shared/form16';
+import { validatePan } from '@shared/panValidation';
+import { parseFinancialYear } from '@shared/yearValidation';
+
+const PAN_IN_TEXT = /[A-Z]{5}[0-9]{4}[A-Z]/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The captured text with every occurrence of the query marked
+const HighlightedText: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  if (!query.trim()) return <>{text}</>;
+  // Splitting on a capturing pattern puts the matches at the odd positions
+  const parts = text.split(new RegExp(`(${escapeRegExp(query.trim())})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-yellow-200 rounded-sm">{part}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>)}
+    </>
+  );
+};
+
+interface PanCorrectionEditorProps {
+  file: File;
+  data: PdfData;
+  extractedText: string;
+  passwords: string[];
+  onApply: (values: Pick<PdfData, CorrectableField>) => void;
+  onCancel: () => void;
+}
+
+// The document, its captured text and the header fields side by side, so a failed PAN
+// can be fixed from what the PDF actually says
+export const PanCorrectionEditor: React.FC<PanCorrectionEditorProps> = ({
+  file,
+  data,
+  extractedText,
+  passwords,
+  onApply,
+  onCancel
+}) => {
+  const [values, setValues] = useState<Pick<PdfData, CorrectableField>>({
+    employeePAN: data.employeePAN,
+    employeeName: data.employeeName,
+    financialYear: data.financialYear
+  });
+  const [query, setQuery] = useState('');
+
+  const setField = (field: CorrectableField) => (event: React.ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [field]: event.target.value }));
+
+  const yearIsValid = parseFinancialYear(values.financialYear) !== undefined;
+  const panValidation = yearIsValid
+    ? applyManualCorrection(data, values).panValidation
+    : validatePan(values.employeePAN, values.employeeName, data.pathFields);
+  const nameIsValid = values.employeeName.trim().length > 0;
+  const canApply = yearIsValid && nameIsValid && panValidation.status !== 'invalid';
+
+  const panCandidates = Array.from(new Set(extractedText.toUpperCase().match(PAN_IN_TEXT) ?? []));
+  const matchCount = query.trim()
+    ? extractedText.split(new RegExp(escapeRegExp(query.trim()), 'gi')).length - 1
+    : 0;
+
+  return (
+    <div className="grid gap-3 lg:grid-cols-2 mt-3 pt-3 border-t border-red-200">
+      <PdfPreview file={file} passwords={passwords} className="max-h-96" />
+
+      <div className="space-y-3 min-w-0">
+        <div className="space-y-1">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-3 w-3 text-gray-400" />
+            <Input
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Search the captured text"
+              className="h-8 pl-7 text-xs"
+            />
+          </div>
+          {query.trim() && (
+            <p className="text-[10px] text-gray-500">{matchCount} match{matchCount === 1 ? '' : 'es'}</p>
+          )}
+          <div className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words rounded-md bg-white border border-gray-200 p-2 text-[11px] text-gray-700">
+            {extractedText ? <HighlightedText text={extractedText} query={query} /> : 'No text was captured from this PDF'}
+          </div>
+          {panCandidates.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-[10px] text-gray-500">PANs in the text:</span>
+              {panCandidates.map(pan => (
+                <Button
+                  key={pan}
+                  size="sm"
+                  variant="outline"
+                  className="h-5 px-1.5 text-[10px] font-mono"
+                  onClick={() => setValues(prev => ({ ...prev, employeePAN: pan }))}
+                >
+                  {pan}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">PAN</Label>
+            <Input value={values.employeePAN} onChange={setField('employeePAN')} className="h-8 text-xs font-mono uppercase" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Financial year</Label>
+            <Input
+              value={values.financialYear}
+              onChange={setField('financialYear')}
+              placeholder="2024-25"
+              className={`h-8 text-xs ${yearIsValid ? '' : 'border-red-400'}`}
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs">Employee name</Label>
+            <Input
+              value={values.employeeName}
+              onChange={setField('employeeName')}
+              className={`h-8 text-xs ${nameIsValid ? '' : 'border-red-400'}`}
+            />
+          </div>
+        </div>
+
+        <div className="text-xs space-y-1">
+          <div className="flex items-center gap-1">
+            <span className="text-gray-600">PAN check:</span>
+            <Badge
+              variant="outline"
+              className={`text-[10px] capitalize ${
+                panValidation.status === 'valid' ? 'border-green-300 text-green-700'
+                  : panValidation.status === 'suspicious' ? 'border-amber-300 text-amber-700'
+                    : 'border-red-300 text-red-700'}`}
+            >
+              {panValidation.status}
+            </Badge>
+          </div>
+          {panValidation.reasons.length > 0 && (
+            <ul className="list-disc pl-5 text-gray-600">
+              {panValidation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+          {!yearIsValid && <p className="text-red-700">Financial year must look like 2024-25</p>}
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onApply(values)} disabled={!canApply}>
+            Apply correction
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Lock } from 'lucide-react';
+import type { PasswordRequest } from '@/hooks/use-password-prompt';
+
+interface PasswordPromptDialogProps {
+  request: PasswordRequest | null;
+  onAnswer: (password: string | null) => void;
+}
+
+export const PasswordPromptDialog: React.FC<PasswordPromptDialogProps> = ({ request, onAnswer }) => {
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    setPassword('');
+  }, [request]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onAnswer(password);
+  };
+
+  return (
+    <Dialog open={request !== null} onOpenChange={(open) => !open && onAnswer(null)}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="h-4 w-4 mr-2 text-indigo-600" />
+              Password required
+            </DialogTitle>
+            <DialogDescription>
+              {request?.fileName} is password protected.
+              {request?.incorrect && ' The passwords tried so far did not open it.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            autoFocus
+            placeholder="PDF password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onAnswer(null)}>
+              Skip file
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Open
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KeyRound, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchEmployees,
+  fetchPasswordTemplates,
+  importEmployees,
+  parseEmployeeMaster,
+  removePasswordTemplates,
+  savePasswordTemplates
+} from '@/services/passwordSettingsService';
+import { PASSWORD_TOKENS } from '@shared/passwords';
+
+const splitTemplates = (value: string) => value.split(',').map(template => template.trim()).filter(Boolean);
+
+interface CompanyPasswordRowProps {
+  companyName: string;
+  templates: string[];
+  employeeCount: number;
+  onSave: (templates: string[]) => void;
+  onImport: (file: File) => void;
+}
+
+const CompanyPasswordRow: React.FC<CompanyPasswordRowProps> = ({ companyName, templates, employeeCount, onSave, onImport }) => {
+  const [value, setValue] = useState(templates.join(', '));
+
+  return (
+    <div className="p-2 border rounded-md space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900 truncate">{companyName}</span>
+        <span className="text-xs text-gray-500">{employeeCount} employees in master</span>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          className="h-8 font-mono text-xs"
+          placeholder="{pan_lower}{dob_ddmmyyyy}"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <Button size="sm" variant="outline" onClick={() => onSave(splitTemplates(value))}>
+          Save
+        </Button>
+        <Button size="sm" variant="outline" asChild>
+          <label className="cursor-pointer">
+            <Upload className="h-3 w-3 mr-1" />
+            Master
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface PasswordSettingsProps {
+  companyNames: string[];
+}
+
+// Password templates per company folder and the employee master that fills them
+export const PasswordSettings: React.FC<PasswordSettingsProps> = ({ companyNames }) => {
+  const [newCompany, setNewCompany] = useState('');
+  const [addedCompanies, setAddedCompanies] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: passwordTemplates = [] } = useQuery({ queryKey: ['/api/company-passwords'], queryFn: fetchPasswordTemplates });
+  const { data: employees = [] } = useQuery({ queryKey: ['/api/employees'], queryFn: fetchEmployees });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Password settings update failed', description: error.message, variant: 'destructive' });
+  };
+
+  const saveTemplates = useMutation({
+    mutationFn: async ({ companyName, templates }: { companyName: string; templates: string[] }) => {
+      if (templates.length === 0) {
+        await removePasswordTemplates(companyName);
+      } else {
+        await savePasswordTemplates(companyName, templates);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/company-passwords'] }),
+    onError
+  });
+
+  const importMaster = useMutation({
+    mutationFn: async ({ companyName, file }: { companyName: string; file: File }) =>
+      importEmployees(companyName, await parseEmployeeMaster(file)),
+    onSuccess: (imported, { companyName }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/employees'] });
+      toast({ title: 'Employee master imported', description: `${imported.length} employees for ${companyName}` });
+    },
+    onError
+  });
+
+  const companies = Array.from(new Set([
+    ...companyNames,
+    ...passwordTemplates.map(entry => entry.companyName),
+    ...employees.map(employee => employee.companyName),
+    ...addedCompanies
+  ])).filter(Boolean).sort();
+
+  const addCompany = () => {
+    setAddedCompanies(prev => [...prev, newCompany.trim()]);
+    setNewCompany('');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <KeyRound className="h-5 w-5 mr-2 text-indigo-600" />
+          PDF Passwords
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-gray-500">
+          Comma separated templates tried on encrypted PDFs. Tokens:{' '}
+          {Object.keys(PASSWORD_TOKENS).map(token => `{${token}}`).join(' ')}
+        </p>
+        {companies.map(companyName => {
+          const templates = passwordTemplates.find(entry => entry.companyName === companyName)?.templates || [];
+          return (
+            <CompanyPasswordRow
+              // Remount when saved templates change so the input shows them
+              key={`${companyName}:${templates.join(',')}`}
+              companyName={companyName}
+              templates={templates}
+              employeeCount={employees.filter(employee => employee.companyName === companyName).length}
+              onSave={(updated) => saveTemplates.mutate({ companyName, templates: updated })}
+              onImport={(file) => importMaster.mutate({ companyName, file })}
+            />
+          );
+        })}
+        <div className="flex gap-2">
+          <Input
+            className="h-8 text-sm"
+            placeholder="Company folder name"
+            value={newCompany}
+            onChange={(e) => setNewCompany(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={addCompany} disabled={!newCompany.trim()}>
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { matchPathTemplate, resolvePathFields } from '@shared/pathTemplates';
+
+const SAMPLE_COUNT = 5;
+
+interface PathMappingPreviewProps {
+  employeePaths: string[];
+  pattern: string;
+  companyName: string;
+}
+
+// A few of the staged folders as the chosen template reads them, before anything is extracted
+export const PathMappingPreview: React.FC<PathMappingPreviewProps> = ({ employeePaths, pattern, companyName }) => {
+  const distinct = Array.from(new Set(employeePaths));
+  const unmatched = distinct.filter(path => !matchPathTemplate(path, pattern));
+  // Folders the template does not fit are shown first so they are not missed
+  const samples = [...unmatched, ...distinct.filter(path => !unmatched.includes(path))].slice(0, SAMPLE_COUNT);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-600">
+        {distinct.length} folder{distinct.length === 1 ? '' : 's'}
+        {unmatched.length > 0 && (
+          <span className="text-amber-700">
+            {' '}· {unmatched.length} not matching the template, read as Company/…/Employee
+          </span>
+        )}
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Path</TableHead>
+            <TableHead>Company</TableHead>
+            <TableHead>FY</TableHead>
+            <TableHead>Emp Code</TableHead>
+            <TableHead>Employee</TableHead>
+            <TableHead>PAN</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {samples.map(path => {
+            const fields = resolvePathFields(path, pattern, companyName);
+            return (
+              <TableRow key={path}>
+                <TableCell className="text-xs max-w-48">
+                  <div className="truncate" title={path}>{path}</div>
+                  {unmatched.includes(path) && (
+                    <Badge variant="outline" className="text-[10px] border-amber-300 text-amber-700">No match</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">{fields.company || '-'}</TableCell>
+                <TableCell className="text-xs">{fields.fy ?? '-'}</TableCell>
+                <TableCell className="text-xs">{fields.empCode ?? '-'}</TableCell>
+                <TableCell className="text-xs">{fields.employee ?? '-'}</TableCell>
+                <TableCell className="text-xs font-mono">{fields.pan ?? '-'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
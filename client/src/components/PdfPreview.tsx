@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { PageViewport, PDFDocumentProxy } from 'pdfjs-dist';
+import { loadPdfJs } from '@/services/pdfJsLoader';
+import { openPdfDocument } from '@/services/pdfPasswordService';
+import type { BoundingBox } from '@shared/layout';
+
+// Pages are drawn at this multiple of their PDF size, then scaled down to fit the panel
+const RENDER_SCALE = 1.5;
+
+// A box to outline on a page, in PDF user space as recorded in field provenance
+export interface PdfHighlight {
+  id: string;
+  page: number; // 1-based page of the previewed file
+  boundingBox: BoundingBox;
+  label: string;
+}
+
+interface RenderedPage {
+  canvas: HTMLCanvasElement;
+  viewport: PageViewport;
+}
+
+// Mounts a canvas pdf.js has already drawn
+const PageCanvas: React.FC<{ canvas: HTMLCanvasElement }> = ({ canvas }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    ref.current?.replaceChildren(canvas);
+  }, [canvas]);
+  return <div ref={ref} />;
+};
+
+interface PdfPreviewProps {
+  file: File;
+  passwords?: string[]; // tried on an encrypted file; the user is not asked again
+  highlights?: PdfHighlight[];
+  activeHighlight?: string | null; // scrolled into view and emphasised
+  onHighlightClick?: (id: string) => void;
+  className?: string;
+}
+
+// Every page of a PDF drawn with pdf.js, with optional boxes around extracted values
+export const PdfPreview: React.FC<PdfPreviewProps> = ({
+  file,
+  passwords = [],
+  highlights = [],
+  activeHighlight = null,
+  onHighlightClick,
+  className = ''
+}) => {
+  const [pages, setPages] = useState<RenderedPage[]>([]);
+  const [state, setState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const highlightRefs = useRef(new Map<string, HTMLDivElement>());
+
+  useEffect(() => {
+    let cancelled = false;
+    let pdf: PDFDocumentProxy | null = null;
+    setPages([]);
+    setState('loading');
+
+    const render = async () => {
+      const pdfjsLib = await loadPdfJs();
+      const data = new Uint8Array(await file.arrayBuffer());
+      const opened = await openPdfDocument(pdfjsLib, data, passwords, async () => null);
+      if (cancelled) return opened.destroy();
+      pdf = opened;
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        const canvas = document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        canvas.className = 'block w-full border border-gray-200 bg-white';
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas rendering is not available');
+        await page.render({ canvasContext: context, viewport }).promise;
+        if (!cancelled) setPages(prev => [...prev, { canvas, viewport }]);
+      }
+      if (!cancelled) setState('ready');
+    };
+
+    render().catch(error => {
+      console.error(`Could not preview ${file.name}:`, error);
+      if (!cancelled) setState('error');
+    });
+
+    return () => {
+      cancelled = true;
+      pdf?.destroy();
+    };
+    // passwords is a fresh array on every render of the parent; the file decides what is shown
+  }, [file]);
+
+  // Pages render one by one, so the active box may only appear after it was chosen
+  useEffect(() => {
+    if (!activeHighlight) return;
+    highlightRefs.current.get(activeHighlight)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeHighlight, pages.length]);
+
+  // Viewport rectangles may come back with their corners swapped, depending on rotation
+  const toPercentRect = ({ viewport }: RenderedPage, box: BoundingBox) => {
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([box.x, box.y, box.x + box.width, box.y + box.height]);
+    return {
+      left: `${(Math.min(x1, x2) / viewport.width) * 100}%`,
+      top: `${(Math.min(y1, y2) / viewport.height) * 100}%`,
+      width: `${(Math.abs(x2 - x1) / viewport.width) * 100}%`,
+      height: `${(Math.abs(y2 - y1) / viewport.height) * 100}%`
+    };
+  };
+
+  return (
+    <div className={`overflow-y-auto bg-gray-100 p-2 rounded-md ${className}`}>
+      {state === 'error' && (
+        <p className="py-8 text-center text-sm text-gray-500">This PDF cannot be previewed</p>
+      )}
+      <div className="space-y-2">
+        {pages.map((page, index) => (
+          <div key={index} className="relative">
+            <PageCanvas canvas={page.canvas} />
+            {highlights.filter(highlight => highlight.page === index + 1).map(highlight => (
+              <div
+                key={highlight.id}
+                ref={element => {
+                  if (element) highlightRefs.current.set(highlight.id, element);
+                  else highlightRefs.current.delete(highlight.id);
+                }}
+                title={highlight.label}
+                onClick={() => onHighlightClick?.(highlight.id)}
+                className={`absolute rounded-sm border-2 cursor-pointer transition-colors ${
+                  highlight.id === activeHighlight
+                    ? 'border-indigo-600 bg-indigo-400/30'
+                    : 'border-amber-500 bg-amber-300/20 hover:bg-amber-300/40'
+                }`}
+                style={toPercentRect(page, highlight.boundingBox)}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      {state === 'loading' && (
+        <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Rendering {file.name}…
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Scale } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { formatIndianAmount } from '@shared/amounts';
+import type { ReconciliationRow, ReconciliationStatus, ReconciliationTolerance } from '@shared/reconciliation';
+
+const STATUS_STYLES: Record<ReconciliationStatus, string> = {
+  matched: 'border-green-300 text-green-700',
+  mismatched: 'border-red-300 text-red-700',
+  incomplete: 'border-gray-300 text-gray-600'
+};
+
+interface ReconciliationReportProps {
+  rows: ReconciliationRow[];
+  tolerance: ReconciliationTolerance;
+  onToleranceChange: (tolerance: ReconciliationTolerance) => void;
+  overrides: Record<string, string>; // row key -> reviewer who accepted the mismatch
+  onOverride: (key: string, reviewer: string | null) => void;
+}
+
+// Part A quarterly totals against Part B per employee; mismatches block signing until overridden
+export const ReconciliationReport: React.FC<ReconciliationReportProps> = ({
+  rows,
+  tolerance,
+  onToleranceChange,
+  overrides,
+  onOverride
+}) => {
+  const [reviewer, setReviewer] = useState('');
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const handleDownloadExcel = () => {
+    const excelData = rows.flatMap(row => (row.checks.length > 0 ? row.checks : [undefined]).map(check => ({
+      'Employee Name': row.employeeName,
+      'PAN': row.employeePAN,
+      'Financial Year': row.financialYear,
+      'Check': check?.label ?? '',
+      'Part A': check?.partA ?? '',
+      'Part B': check?.partB ?? '',
+      'Difference': check?.difference ?? '',
+      'Within Tolerance': check ? (check.withinTolerance ? 'Yes' : 'No') : '',
+      'Status': row.status,
+      'Overridden By': overrides[row.key] ?? ''
+    })));
+
+    const worksheet = XLSX.utils.json_to_sheet(excelData);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'TDS Reconciliation');
+
+    XLSX.writeFile(workbook, `TDS_Reconciliation_${new Date().toISOString().split('T')[0]}.xlsx`);
+  };
+
+  const setTolerance = (field: keyof ReconciliationTolerance, value: string) => {
+    const amount = Number(value);
+    onToleranceChange({ ...tolerance, [field]: Number.isFinite(amount) && amount >= 0 ? amount : 0 });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center text-lg">
+            <Scale className="h-5 w-5 mr-2 text-indigo-600" />
+            TDS Reconciliation
+          </CardTitle>
+          <Button onClick={handleDownloadExcel} variant="outline" size="sm">
+            <Download className="h-4 w-4 mr-2" />
+            Download Excel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <span>Tolerance ₹</span>
+          <Input
+            className="h-8 w-24"
+            type="number"
+            min={0}
+            value={tolerance.absolute}
+            onChange={(e) => setTolerance('absolute', e.target.value)}
+          />
+          <span>or %</span>
+          <Input
+            className="h-8 w-20"
+            type="number"
+            min={0}
+            step={0.1}
+            value={tolerance.percent}
+            onChange={(e) => setTolerance('percent', e.target.value)}
+          />
+          <Input
+            className="h-8 w-40 ml-auto"
+            placeholder="Reviewer name"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Check</TableHead>
+                <TableHead className="text-right">Part A</TableHead>
+                <TableHead className="text-right">Part B</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => {
+                const checks = row.checks.length > 0 ? row.checks : [undefined];
+                return checks.map((check, index) => (
+                  <TableRow key={`${row.key}-${index}`}>
+                    {index === 0 && (
+                      <TableCell rowSpan={checks.length} className="text-xs align-top">
+                        <div className="font-medium">{row.employeeName}</div>
+                        <div className="text-gray-500">{row.employeePAN} · FY {row.financialYear}</div>
+                      </TableCell>
+                    )}
+                    <TableCell className="text-xs">{check?.label ?? 'Part A or Part B missing'}</TableCell>
+                    <TableCell className="text-xs text-right">{check ? formatIndianAmount(check.partA) : '-'}</TableCell>
+                    <TableCell className="text-xs text-right">{check ? formatIndianAmount(check.partB) : '-'}</TableCell>
+                    <TableCell className={`text-xs text-right ${check && !check.withinTolerance ? 'text-red-700 font-medium' : ''}`}>
+                      {check ? formatIndianAmount(check.difference) : '-'}
+                    </TableCell>
+                    {index === 0 && (
+                      <TableCell rowSpan={checks.length} className="text-xs align-top space-y-1">
+                        <Badge variant="outline" className={`text-[10px] capitalize ${STATUS_STYLES[row.status]}`}>
+                          {row.status}
+                        </Badge>
+                        {row.status === 'mismatched' && (overrides[row.key] ? (
+                          <div>
+                            <div className="text-gray-600">Overridden by {overrides[row.key]}</div>
+                            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onOverride(row.key, null)}>
+                              Undo
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-xs"
+                            disabled={!reviewer.trim()}
+                            title={reviewer.trim() ? 'Allow signing despite the mismatch' : 'Enter a reviewer name first'}
+                            onClick={() => onOverride(row.key, reviewer.trim())}
+                          >
+                            Override
+                          </Button>
+                        ))}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ));
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FolderOpen, History, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { deleteBatch, fetchBatches } from '@/services/batchService';
+
+interface SavedBatchesProps {
+  currentBatchId: number | null;
+  disabled: boolean; // while files are being extracted into the current batch
+  onOpen: (id: number) => void;
+  onNew: () => void;
+}
+
+// Batches saved on the server, most recently changed first, to pick up where work stopped
+export const SavedBatches: React.FC<SavedBatchesProps> = ({ currentBatchId, disabled, onOpen, onNew }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: batches = [] } = useQuery({ queryKey: ['/api/batches'], queryFn: fetchBatches });
+
+  const removeBatch = useMutation({
+    mutationFn: deleteBatch,
+    onSuccess: (_result, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/batches'] });
+      if (id === currentBatchId) onNew();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete the batch', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span className="flex items-center">
+            <History className="h-5 w-5 mr-2 text-indigo-600" />
+            Saved Batches
+          </span>
+          <Button size="sm" variant="outline" onClick={onNew} disabled={disabled || currentBatchId === null}>
+            <Plus className="h-3 w-3 mr-1" />
+            New batch
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 max-h-72 overflow-y-auto">
+        {batches.length === 0 ? (
+          <p className="text-sm text-gray-500">Batches are saved here as files are extracted</p>
+        ) : (
+          batches.map(batch => (
+            <div
+              key={batch.id}
+              className={`flex items-center justify-between gap-2 p-2 rounded-md border text-sm ${
+                batch.id === currentBatchId ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <strong className="truncate">{batch.name}</strong>
+                  {batch.id === currentBatchId && (
+                    <Badge variant="outline" className="text-[10px] border-indigo-300 text-indigo-700">Open</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {batch.documentCount} document{batch.documentCount === 1 ? '' : 's'}
+                  {batch.failureCount > 0 && ` · ${batch.failureCount} failed`}
+                  {batch.signedCount > 0 && ` · ${batch.signedCount} signed`}
+                  {' · '}{new Date(batch.updatedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  onClick={() => onOpen(batch.id)}
+                  disabled={disabled || batch.id === currentBatchId}
+                  title="Open this batch"
+                >
+                  <FolderOpen className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  onClick={() => removeBatch.mutate(batch.id)}
+                  disabled={disabled || removeBatch.isPending}
+                  title="Delete this batch"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calculator, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { readTaxRulesFile, saveTaxRules } from '@/services/taxRulesService';
+import { formatIndianAmount } from '@shared/amounts';
+import type { PdfData } from '@shared/form16';
+import { recomputeTax, type TaxRecomputationStatus } from '@shared/taxEngine';
+import type { TaxRuleSet } from '@shared/taxRules';
+
+const STATUS_LABELS: Record<TaxRecomputationStatus, string> = {
+  matched: 'Matches',
+  discrepancy: 'Discrepancy',
+  'no-rules': 'No rules for AY',
+  incomplete: 'No Part B figures'
+};
+
+const STATUS_STYLES: Record<TaxRecomputationStatus, string> = {
+  matched: 'border-green-300 text-green-700',
+  discrepancy: 'border-red-300 text-red-700',
+  'no-rules': 'border-amber-300 text-amber-700',
+  incomplete: 'border-gray-300 text-gray-600'
+};
+
+interface TaxRecomputationReportProps {
+  documents: PdfData[];
+  ruleSets: TaxRuleSet[];
+}
+
+// Part B tax recomputed under both regimes from the assessment year's rules
+export const TaxRecomputationReport: React.FC<TaxRecomputationReportProps> = ({ documents, ruleSets }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const importRules = useMutation({
+    mutationFn: async (file: File) => {
+      const ruleSets = await readTaxRulesFile(file);
+      return Promise.all(ruleSets.map(saveTaxRules));
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-rules'] });
+      toast({ title: 'Tax rules imported', description: saved.map(ruleSet => `AY ${ruleSet.assessmentYear}`).join(', ') });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Tax rules import failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const results = documents
+    .map(data => ({ data, result: recomputeTax(data, ruleSets) }))
+    .filter(({ result }) => result.status !== 'incomplete');
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center text-lg">
+            <Calculator className="h-5 w-5 mr-2 text-indigo-600" />
+            Tax Recomputation
+          </CardTitle>
+          <Button size="sm" variant="outline" asChild>
+            <label className="cursor-pointer" title={`Rules loaded for AY ${ruleSets.map(ruleSet => ruleSet.assessmentYear).join(', ')}`}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Rules
+              <input
+                type="file"
+                accept=".json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importRules.mutate(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 max-h-80 overflow-y-auto">
+        {results.length === 0 && (
+          <p className="text-sm text-gray-500">No documents with Part B figures yet</p>
+        )}
+        {results.map(({ data, result }, index) => (
+          <div key={index} className="p-3 border rounded-md text-xs space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <strong>{data.employeeName}</strong>
+              <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES[result.status]}`}>
+                {STATUS_LABELS[result.status]}
+              </Badge>
+            </div>
+            <div className="text-gray-600">
+              AY {result.assessmentYear}
+              {result.regime && ` · ${result.regime === 'new' ? 'New regime (115BAC)' : 'Old regime'}`}
+              {result.regimeAssumed && ' (assumed)'}
+            </div>
+            {result.computed.old && result.computed.new && (
+              <div className="text-gray-600">
+                Recomputed: old ₹{formatIndianAmount(result.computed.old.totalTax)} · new ₹{formatIndianAmount(result.computed.new.totalTax)}
+                {' · printed '}₹{formatIndianAmount(data.partB.netTaxPayable)}
+              </div>
+            )}
+            {result.discrepancies.length > 0 && (
+              <ul className="list-disc pl-5 text-red-700">
+                {result.discrepancies.map(item => (
+                  <li key={item.label}>
+                    {item.label}: printed ₹{formatIndianAmount(item.printed)}, recomputed ₹{formatIndianAmount(item.computed)}
+                    {' '}(difference ₹{formatIndianAmount(item.difference)})
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { FileQuestion } from 'lucide-react';
+
+interface UnclassifiedDocument {
+  fileName: string;
+  employeePath: string;
+  companyName: string;
+  extractedText: string;
+}
+
+interface UnclassifiedListProps {
+  documents: UnclassifiedDocument[];
+}
+
+export const UnclassifiedList: React.FC<UnclassifiedListProps> = ({ documents }) => {
+  if (documents.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center text-amber-600">
+          <FileQuestion className="h-5 w-5 mr-2" />
+          Unclassified Documents ({documents.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {documents.map((document, index) => (
+            <div key={index} className="p-3 bg-amber-50 border border-amber-200 rounded-md">
+              <div className="flex items-center justify-between text-sm">
+                <strong>{document.fileName}</strong>
+                <Badge variant="outline" className="text-xs">Not a Form 16</Badge>
+              </div>
+              <div className="text-xs text-gray-600 mt-1">Path: {document.employeePath}</div>
+              {document.extractedText && (
+                <div className="text-xs text-gray-500 mt-1 line-clamp-2">{document.extractedText}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
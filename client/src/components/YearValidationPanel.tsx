@@ -0,0 +1,79 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { CalendarCheck } from 'lucide-react';
+import type { PdfData } from '@shared/form16';
+import { countFinancialYears, parseFinancialYear, validateYears } from '@shared/yearValidation';
+
+interface YearValidationPanelProps {
+  documents: PdfData[];
+  expectedFinancialYear: string;
+  onExpectedFinancialYearChange: (financialYear: string) => void;
+}
+
+// FY / AY consistency, issue date and employment period checks for the current batch
+export const YearValidationPanel: React.FC<YearValidationPanelProps> = ({
+  documents,
+  expectedFinancialYear,
+  onExpectedFinancialYearChange
+}) => {
+  const expectedIsValid = !expectedFinancialYear || parseFinancialYear(expectedFinancialYear) !== undefined;
+  const yearCounts = countFinancialYears(documents);
+  const flagged = documents
+    .map(data => ({ data, validation: validateYears(data, expectedIsValid ? expectedFinancialYear : undefined) }))
+    .filter(({ validation }) => validation.status !== 'valid');
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <CalendarCheck className="h-5 w-5 mr-2 text-indigo-600" />
+          Year Validation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-700 whitespace-nowrap">Expected FY</span>
+          <Input
+            className="h-8 w-32 text-sm"
+            placeholder="2024-25"
+            value={expectedFinancialYear}
+            onChange={(e) => onExpectedFinancialYearChange(e.target.value.trim())}
+          />
+          {!expectedIsValid && <span className="text-xs text-red-600">Use the form 2024-25</span>}
+        </div>
+
+        {yearCounts.length > 1 && (
+          <div className="p-2 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+            Batch mixes financial years: {yearCounts.map(([year, count]) => `${year} (${count})`).join(', ')}
+          </div>
+        )}
+
+        {documents.length > 0 && flagged.length === 0 && yearCounts.length <= 1 && (
+          <p className="text-sm text-green-700">All documents passed the year checks</p>
+        )}
+
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {flagged.map(({ data, validation }, index) => (
+            <div
+              key={index}
+              className={`p-3 border rounded-md ${validation.status === 'invalid' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <strong>{data.employeeName}</strong>
+                <Badge variant="outline" className="text-xs capitalize">{validation.status}</Badge>
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                FY {data.financialYear} · AY {data.assessmentYear} · {data.employeePath}
+              </div>
+              <ul className="text-xs text-gray-700 list-disc pl-5 mt-1">
+                {validation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
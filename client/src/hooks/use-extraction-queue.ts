@@ -0,0 +1,118 @@
+import { useCallback, useRef, useState } from 'react';
+import type { PathFields } from '@shared/pathTemplates';
+
+export type JobState = 'queued' | 'extracting' | 'done' | 'failed' | 'cancelled';
+
+export interface ExtractionJob {
+  id: string;
+  file: File;
+  employeePath: string;
+  pathFields: PathFields;
+  state: JobState;
+  attempts: number;
+  error?: string;
+}
+
+// Runs one job on a worker slot; it should stop early once the signal is aborted. A retried
+// job runs again from the start, so the runner skips what an earlier attempt already added.
+export type JobRunner = (job: ExtractionJob, slot: number, signal: AbortSignal) => Promise<void>;
+
+const FINISHED: JobState[] = ['done', 'failed', 'cancelled'];
+
+// Files are extracted at most `concurrency` at a time, one per worker slot. Pausing
+// stops new jobs from starting, cancelling also aborts the running ones, and failed or
+// cancelled jobs can be retried one by one.
+export function useExtractionQueue(runJob: JobRunner, concurrency: number) {
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const jobsRef = useRef<ExtractionJob[]>([]);
+  const pausedRef = useRef(false);
+  const freeSlots = useRef<number[]>(Array.from({ length: concurrency }, (_, slot) => slot));
+  const controllers = useRef(new Map<string, AbortController>());
+  const nextId = useRef(1);
+
+  // The runner closes over the page's latest state (profiles, passwords)
+  const runJobRef = useRef(runJob);
+  runJobRef.current = runJob;
+
+  const update = useCallback((id: string, changes: Partial<ExtractionJob>) => {
+    jobsRef.current = jobsRef.current.map(job => job.id === id ? { ...job, ...changes } : job);
+    setJobs(jobsRef.current);
+  }, []);
+
+  const pump = useCallback(() => {
+    while (!pausedRef.current && freeSlots.current.length > 0) {
+      const job = jobsRef.current.find(candidate => candidate.state === 'queued');
+      if (!job) return;
+
+      const slot = freeSlots.current.shift()!;
+      const controller = new AbortController();
+      controllers.current.set(job.id, controller);
+      update(job.id, { state: 'extracting', attempts: job.attempts + 1, error: undefined });
+
+      runJobRef.current(job, slot, controller.signal)
+        .then(() => update(job.id, { state: controller.signal.aborted ? 'cancelled' : 'done' }))
+        .catch((error) => update(job.id, controller.signal.aborted
+          ? { state: 'cancelled' }
+          : { state: 'failed', error: error instanceof Error ? error.message : String(error) }))
+        .finally(() => {
+          controllers.current.delete(job.id);
+          freeSlots.current.push(slot);
+          pump();
+        });
+    }
+  }, [update]);
+
+  const enqueue = useCallback((files: { file: File; employeePath: string; pathFields: PathFields }[]) => {
+    const added = files.map(({ file, employeePath, pathFields }) => ({
+      id: String(nextId.current++),
+      file,
+      employeePath,
+      pathFields,
+      state: 'queued' as const,
+      attempts: 0
+    }));
+    jobsRef.current = [...jobsRef.current, ...added];
+    setJobs(jobsRef.current);
+    pump();
+  }, [pump]);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    pump();
+  }, [pump]);
+
+  const cancel = useCallback(() => {
+    jobsRef.current = jobsRef.current.map(job => job.state === 'queued' ? { ...job, state: 'cancelled' } : job);
+    setJobs(jobsRef.current);
+    controllers.current.forEach(controller => controller.abort());
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    const job = jobsRef.current.find(candidate => candidate.id === id);
+    if (!job || (job.state !== 'failed' && job.state !== 'cancelled')) return;
+    update(id, { state: 'queued', error: undefined });
+    pump();
+  }, [pump, update]);
+
+  const finished = jobs.filter(job => FINISHED.includes(job.state)).length;
+  const isRunning = jobs.some(job => job.state === 'extracting' || (job.state === 'queued' && !isPaused));
+
+  return {
+    jobs,
+    isPaused,
+    isRunning,
+    progress: jobs.length > 0 ? Math.round((finished / jobs.length) * 100) : 0,
+    enqueue,
+    pause,
+    resume,
+    cancel,
+    retry
+  };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useRef, useState } from 'react';
+
+export interface PasswordRequest {
+  fileName: string;
+  incorrect: boolean; // a previous password for this file was rejected
+}
+
+interface PendingRequest extends PasswordRequest {
+  resolve: (password: string | null) => void;
+}
+
+// Files are processed concurrently, so password requests queue up and the dialog
+// shows them one at a time
+export function usePasswordPrompt() {
+  const [current, setCurrent] = useState<PendingRequest | null>(null);
+  const active = useRef<PendingRequest | null>(null);
+  const queue = useRef<PendingRequest[]>([]);
+
+  const show = (request: PendingRequest | null) => {
+    active.current = request;
+    setCurrent(request);
+  };
+
+  const requestPassword = useCallback((fileName: string, incorrect: boolean) =>
+    new Promise<string | null>(resolve => {
+      const request = { fileName, incorrect, resolve };
+      if (active.current) {
+        queue.current.push(request);
+      } else {
+        show(request);
+      }
+    }), []);
+
+  // null skips the file
+  const answer = useCallback((password: string | null) => {
+    active.current?.resolve(password);
+    show(queue.current.shift() ?? null);
+  }, []);
+
+  return { request: current as PasswordRequest | null, requestPassword, answer };
+}
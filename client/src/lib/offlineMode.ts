@@ -0,0 +1,4 @@
+// Built with VITE_OFFLINE_MODE=true, the app makes no requests outside its own origin:
+// pdf.js, OCR data and fonts already come from the bundle or this server, and uploads
+// to the external Form 16 API are switched off.
+export const OFFLINE_MODE = import.meta.env.VITE_OFFLINE_MODE === 'true';
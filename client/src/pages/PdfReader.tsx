@@ -1,231 +1,434 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { FileUpload } from '@/components/FileUpload';
+import { ExtractionQueuePanel } from '@/components/ExtractionQueuePanel';
+import { InboxBatches } from '@/components/InboxBatches';
+import { SavedBatches } from '@/components/SavedBatches';
 import { ExtractedData } from '@/components/ExtractedData';
 import { FailedPanList } from '@/components/FailedPanList';
+import { UnclassifiedList } from '@/components/UnclassifiedList';
+import { YearValidationPanel } from '@/components/YearValidationPanel';
+import { DuplicatePanel } from '@/components/DuplicatePanel';
+import { ReconciliationReport } from '@/components/ReconciliationReport';
+import { TaxRecomputationReport } from '@/components/TaxRecomputationReport';
+import { ExtractionProfileManager } from '@/components/ExtractionProfileManager';
+import { PasswordSettings } from '@/components/PasswordSettings';
+import { PasswordPromptDialog } from '@/components/PasswordPromptDialog';
 import { DSCSigningDialog } from '@/components/DSCSigningDialog';
 import { FileText, Upload, CheckCircle, AlertTriangle, Send, FileSignature, Download } from 'lucide-react';
 import { mockAzureUpload } from '@/services/azureUploadService';
 import { uploadToApi } from '@/services/apiUploadService';
 import { useToast } from '@/hooks/use-toast';
+import { usePasswordPrompt } from '@/hooks/use-password-prompt';
+import { useExtractionQueue, type JobRunner } from '@/hooks/use-extraction-queue';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import DSCSigningService, { type SignedDocument } from '@/services/dscSigningService';
-
-interface PdfData {
-  date: string;
-  employeeName: string;
-  employeePAN: string;
-  financialYear: string;
-  assessmentYear: string;
-  employeePath: string;
-  companyName: string;
-  pdfread: string; // first page extracted data
-  uploadStatus?: 'pending' | 'uploading' | 'success' | 'error';
-  uploadId?: string;
-}
+import { fetchCompanyProfiles, fetchProfiles } from '@/services/extractionProfileService';
+import { extractPageRange } from '@/services/pdfSplitService';
+import { recognizePages } from '@/services/ocrService';
+import { openPdfDocument } from '@/services/pdfPasswordService';
+import { loadPdfJs } from '@/services/pdfJsLoader';
+import { OFFLINE_MODE } from '@/lib/offlineMode';
+import { extractInWorker, getPdfWorker } from '@/services/workerPool';
+import { hashFile } from '@/services/fileHashService';
+import { fetchEmployees, fetchPasswordTemplates } from '@/services/passwordSettingsService';
+import { fetchTaxRules } from '@/services/taxRulesService';
+import {
+  base64ToFile,
+  createBatch,
+  deleteFailure,
+  fetchBatchSession,
+  recordUploadAttempts,
+  saveDocument,
+  saveFailure,
+  saveSignatures,
+  updateBatch
+} from '@/services/batchService';
+import { documentPdfData, type BatchReview } from '@shared/batches';
+import { DEFAULT_PROFILE, type FieldDefinition } from '@shared/extractionProfiles';
+import { layoutFromTextItems, type PdfTextItem } from '@shared/layout';
+import { derivePasswords, isPasswordError } from '@shared/passwords';
+import type { PathFields } from '@shared/pathTemplates';
+import { excludedDocuments, findDuplicateGroups, isUnresolved } from '@shared/duplicates';
+import { DEFAULT_TOLERANCE, reconcileBatch, type ReconciliationTolerance } from '@shared/reconciliation';
+import { BUILT_IN_TAX_RULES } from '@shared/taxRules';
+import {
+  applyManualCorrection,
+  fallbackForm16Fields,
+  isDecryptionFailure,
+  isUnclassified,
+  toPdfData,
+  needsOcr,
+  PDF_DECRYPT_ERROR,
+  type CorrectableField,
+  type DuplicateResolution,
+  type ExtractedPdfFields,
+  type PdfData,
+  type TextSource
+} from '@shared/form16';
 
 interface FailedPanExtraction {
+  reason: 'pan' | 'decrypt' | 'skipped';
+  details: string;
   fileName: string;
   employeePath: string;
   employeeName: string;
   companyName: string;
   extractedText: string;
+  file?: File; // kept for PAN failures so they can be corrected
+  data?: PdfData;
+  id?: number; // of the saved failure, removed from the batch once corrected
 }
 
+interface UploadedFile {
+  file: File;
+  data: PdfData;
+  documentId?: number; // once saved with the batch
+}
+
+const failureRecord = (failed: FailedPanExtraction) => ({
+  reason: failed.reason,
+  details: failed.details,
+  fileName: failed.fileName,
+  employeePath: failed.employeePath,
+  employeeName: failed.employeeName,
+  companyName: failed.companyName,
+  extractedText: failed.extractedText,
+  data: failed.data ?? null
+});
+
+// One slot per spare core: each slot holds a pdf.js worker and an extraction worker
+const EXTRACTION_CONCURRENCY = Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+
 const PdfReader = () => {
   const [extractedDataList, setExtractedDataList] = useState<PdfData[]>([]);
   const [failedPanExtractions, setFailedPanExtractions] = useState<FailedPanExtraction[]>([]);
-  const [uploadedFiles, setUploadedFiles] = useState<{ file: File; data: PdfData }[]>([]);
+  const [unclassifiedDocuments, setUnclassifiedDocuments] = useState<Omit<FailedPanExtraction, 'employeeName' | 'reason' | 'details'>[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [signedDocuments, setSignedDocuments] = useState<SignedDocument[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
   const [isApiUploading, setIsApiUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [processingStarted, setProcessingStarted] = useState(false);
+  const [expectedFinancialYear, setExpectedFinancialYear] = useState('');
+  const [duplicateResolutions, setDuplicateResolutions] = useState<Record<string, DuplicateResolution>>({});
+  const [tolerance, setTolerance] = useState<ReconciliationTolerance>(DEFAULT_TOLERANCE);
+  const [reconciliationOverrides, setReconciliationOverrides] = useState<Record<string, string>>({});
+  const [batchId, setBatchId] = useState<number | null>(null);
+  // Set before the batch exists, so documents extracted side by side all join the same one
+  const batchRef = useRef<Promise<number> | null>(null);
+  // Place of the next accepted document, which duplicate resolutions refer to
+  const nextPosition = useRef(0);
+  // How many of each job's documents were already added, so a retried split PDF adds only the rest
+  const addedDocuments = useRef(new Map<string, number>());
+  const queryClient = useQueryClient();
   const { toast } = useToast();
   const dscService = DSCSigningService.getInstance();
+  const { data: profiles = [] } = useQuery({ queryKey: ['/api/profiles'], queryFn: fetchProfiles });
+  const { data: companyProfiles = [] } = useQuery({ queryKey: ['/api/company-profiles'], queryFn: fetchCompanyProfiles });
+  const { data: passwordTemplates = [] } = useQuery({ queryKey: ['/api/company-passwords'], queryFn: fetchPasswordTemplates });
+  const { data: employees = [] } = useQuery({ queryKey: ['/api/employees'], queryFn: fetchEmployees });
+  const { data: taxRules = BUILT_IN_TAX_RULES } = useQuery({ queryKey: ['/api/tax-rules'], queryFn: fetchTaxRules });
+  const { request: passwordRequest, requestPassword, answer: answerPassword } = usePasswordPrompt();
 
-  const extractDataFromPdf = async (file: File): Promise<Omit<PdfData, 'employeePath' | 'companyName'>> => {
-    console.log(`Starting PDF extraction for file: ${file.name}`);
-    
-    return new Promise((resolve, reject) => {
-      const fileReader = new FileReader();
-      
-      fileReader.onload = function() {
-        const typedArray = new Uint8Array(this.result as ArrayBuffer);
-        
-        // Load PDF.js from CDN if not already loaded
-        const loadPdfJs = () => {
-          return new Promise<void>((resolveLoad) => {
-            if ((window as any).pdfjsLib) {
-              resolveLoad();
-              return;
-            }
-            
-            const script = document.createElement('script');
-            script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.min.js';
-            script.onload = () => {
-              (window as any).pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.worker.min.js';
-              resolveLoad();
-            };
-            document.head.appendChild(script);
-          });
-        };
-        
-        loadPdfJs().then(() => {
-          (window as any).pdfjsLib.getDocument(typedArray).promise.then((pdf: any) => {
-            pdf.getPage(1).then((page: any) => {
-              page.getTextContent().then((textContent: any) => {
-                let text = '';
-                textContent.items.forEach((item: any) => {
-                  text += item.str + ' ';
-                });
-                
-                console.log('PDF text extracted successfully, length:', text.length);
-                console.log('First page text:', text.substring(0, 1000));
-                
-                // Use exact C# regex patterns for extraction
-                const dateMatch = text.match(/Date:\s+(\d{2}-[A-Za-z]{3}-\d{4})/);
-                const date = dateMatch ? dateMatch[1] : new Date().toLocaleDateString('en-GB', { 
-                  day: '2-digit', 
-                  month: 'short', 
-                  year: 'numeric' 
-                });
-                
-                const employeeNameMatch = text.match(/Employee Name:\s+([A-Za-z\s]+)/);
-                let employeeName = employeeNameMatch ? employeeNameMatch[1].trim() : '';
-                
-                if (!employeeName) {
-                  const fileNameMatch = file.name.match(/([A-Z][a-zA-Z\s]+?)_/);
-                  if (fileNameMatch) {
-                    employeeName = fileNameMatch[1].replace(/_/g, ' ');
-                  } else {
-                    employeeName = 'Unknown Employee';
-                  }
-                }
-                
-                // Use exact C# regex pattern for PAN extraction
-                const employeePANMatch = text.match(/Employee PAN:\s+([A-Z0-9]+)/);
-                const employeePAN = employeePANMatch ? employeePANMatch[1] : '';
-                
-                const financialYearMatch = text.match(/Financial Year:\s+(\d{4}-\d{2})/);
-                const financialYear = financialYearMatch ? financialYearMatch[1] : '2024-25';
-                
-                const assessmentYearMatch = text.match(/Assessment Year:\s+(\d{4}-\d{2})/);
-                const assessmentYear = assessmentYearMatch ? assessmentYearMatch[1] : '2025-26';
-                
-                const rawFirstPageText = text.substring(0, 2000);
-                
-                console.log('Extracted data:', {
-                  date,
-                  employeeName,
-                  employeePAN: employeePAN || 'EXTRACTION_FAILED',
-                  financialYear,
-                  assessmentYear,
-                  pdfread: rawFirstPageText
-                });
-                
-                resolve({
-                  date,
-                  employeeName,
-                  employeePAN: employeePAN || 'EXTRACTION_FAILED',
-                  financialYear,
-                  assessmentYear,
-                  pdfread: rawFirstPageText
-                });
-              }).catch((error: any) => {
-                console.error('Error getting text content:', error);
-                reject(error);
-              });
-            }).catch((error: any) => {
-              console.error('Error getting page:', error);
-              reject(error);
-            });
-          }).catch((error: any) => {
-            console.error('Error loading PDF:', error);
-            reject(error);
-          });
-        }).catch((error: any) => {
-          console.error('Error loading PDF.js:', error);
-          reject(error);
+  // Profile assigned to the company folder, or the built-in default patterns
+  const getProfileFields = (companyName: string): FieldDefinition[] => {
+    const assignment = companyProfiles.find(entry => entry.companyName === companyName);
+    const profile = assignment && profiles.find(entry => entry.id === assignment.profileId);
+    return profile ? profile.fields : DEFAULT_PROFILE.fields;
+  };
+
+  // Passwords derived from the company's templates for an encrypted file
+  const getPasswords = (pathFields: PathFields, employeePath: string, fileName: string): string[] => {
+    const companyName = pathFields.company;
+    const templates = passwordTemplates.find(entry => entry.companyName === companyName)?.templates || [];
+    const companyEmployees = employees.filter(employee => employee.companyName === companyName);
+    return derivePasswords(templates, companyEmployees, employeePath, fileName, pathFields);
+  };
+
+  const review: BatchReview = { expectedFinancialYear, duplicateResolutions, tolerance, reconciliationOverrides };
+
+  // The batch is saved on the server once its first file has been extracted
+  const ensureBatch = () => {
+    if (!batchRef.current) {
+      const created = createBatch({ name: `Batch of ${new Date().toLocaleString()}`, review }).then(batch => {
+        setBatchId(batch.id);
+        return batch.id;
+      });
+      batchRef.current = created;
+      // The next save tries again
+      created.catch(() => {
+        if (batchRef.current === created) batchRef.current = null;
+      });
+    }
+    return batchRef.current;
+  };
+
+  // Saving runs beside the work on the page; a failed save is reported but stops nothing
+  const persist = <T,>(save: (batchId: number) => Promise<T>): Promise<T | undefined> =>
+    ensureBatch()
+      .then(save)
+      .then(result => {
+        queryClient.invalidateQueries({ queryKey: ['/api/batches'] });
+        return result;
+      })
+      .catch(error => {
+        console.error('Could not save the batch:', error);
+        toast({
+          title: 'Batch not saved',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: 'destructive'
         });
-      };
-      
-      fileReader.onerror = () => {
-        console.error('Error reading file');
-        reject(new Error('Error reading file'));
-      };
-      
-      fileReader.readAsArrayBuffer(file);
-    }).catch((error) => {
-      console.error('Error parsing PDF:', error);
-      
-      return {
-        date: new Date().toLocaleDateString('en-GB', { 
-          day: '2-digit', 
-          month: 'short', 
-          year: 'numeric' 
-        }),
-        employeeName: file.name.replace('_Form16.pdf', '').replace(/_/g, ' '),
-        employeePAN: 'EXTRACTION_FAILED',
-        financialYear: '2024-25',
-        assessmentYear: '2025-26',
-        pdfread: 'Error reading PDF content'
-      };
-    });
+        return undefined;
+      });
+
+  // Reviewer decisions are saved with the batch as they change
+  const reviewJson = JSON.stringify(review);
+  useEffect(() => {
+    if (batchId === null) return;
+    persist(id => updateBatch(id, { review }));
+  }, [batchId, reviewJson]);
+
+  const throwIfAborted = (signal: AbortSignal) => {
+    if (signal.aborted) throw new DOMException('Extraction cancelled', 'AbortError');
   };
 
-  const handleFileUpload = async (file: File, employeePath: string) => {
-    setError(null);
-    setIsProcessing(true);
-    
+  // Parsing runs in the slot's pdf.js worker and the extraction rules in its extraction worker
+  const extractDataFromPdf = async (
+    file: File,
+    fields: FieldDefinition[],
+    passwords: string[],
+    slot: number,
+    signal: AbortSignal
+  ): Promise<ExtractedPdfFields[]> => {
+    console.log(`Starting PDF extraction for file: ${file.name}`);
+    const pdfjsLib = await loadPdfJs();
+    const typedArray = new Uint8Array(await file.arrayBuffer());
+
+    let pdf: PDFDocumentProxy;
     try {
-      console.log(`Processing file: ${file.name} from path: ${employeePath}`);
-      
-      const extractedData = await extractDataFromPdf(file);
-      const companyName = employeePath.split('/')[0];
-      
-      const employeeData: PdfData = {
-        ...extractedData,
+      pdf = await openPdfDocument(pdfjsLib, typedArray, passwords, incorrect => requestPassword(file.name, incorrect), getPdfWorker(pdfjsLib, slot));
+    } catch (error) {
+      // Files that stay locked are reported as failed to decrypt; other errors fail the job
+      if (!isPasswordError(error)) throw error;
+      console.error('Error opening PDF:', error);
+      return [fallbackForm16Fields(file.name, PDF_DECRYPT_ERROR)];
+    }
+
+    try {
+      // Part B usually continues past the first page, so every page is read
+      const pageNumbers = Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+      const pageContents = await Promise.all(pageNumbers.map(async (pageNumber) => {
+        const page = await pdf.getPage(pageNumber);
+        const items = (await page.getTextContent()).items as PdfTextItem[];
+        const pageText = items.map(item => item.str + ' ').join('');
+        return { text: pageText, layout: layoutFromTextItems(items) };
+      }));
+      throwIfAborted(signal);
+
+      const pageTexts = pageContents.map(content => content.text);
+      const pageLayouts = pageContents.map(content => content.layout);
+      console.log('PDF text extracted successfully, pages:', pageTexts.length);
+
+      // Scanned pages have no text layer; recognise them before running the extraction rules
+      const pageSources: TextSource[] = pageTexts.map(text => needsOcr(text) ? 'ocr' : 'pdf-text');
+      const scannedPages = pageNumbers.filter((_, index) => pageSources[index] === 'ocr');
+      if (scannedPages.length > 0) {
+        console.log(`Running OCR on ${scannedPages.length} scanned page(s) of ${file.name}`);
+        const ocrTexts = await recognizePages(pdf, scannedPages);
+        scannedPages.forEach(pageNumber => {
+          pageTexts[pageNumber - 1] = ocrTexts.get(pageNumber) || '';
+          pageLayouts[pageNumber - 1] = [];
+        });
+        throwIfAborted(signal);
+      }
+
+      const documents = await extractInWorker(slot, {
+        pages: pageTexts,
+        fileName: file.name,
+        fields,
+        pageSources,
+        layouts: pageLayouts
+      });
+      console.log('Extracted data:', documents);
+      return documents;
+    } finally {
+      pdf.destroy();
+    }
+  };
+
+  const processDocument = async (
+    file: File,
+    extractedData: ExtractedPdfFields,
+    employeePath: string,
+    pathFields: PathFields,
+    contentHash: string
+  ) => {
+    const employeeData: PdfData = { ...toPdfData(extractedData, employeePath, pathFields), contentHash };
+    const { companyName } = employeeData;
+
+    if (isUnclassified(employeeData)) {
+      const unclassified = {
+        fileName: file.name,
         employeePath,
         companyName,
-        uploadStatus: 'pending'
+        extractedText: employeeData.pdfread
       };
+      setUnclassifiedDocuments(prev => [...prev, unclassified]);
+      persist(id => saveFailure(id, { ...unclassified, reason: 'unclassified' }));
+      return;
+    }
 
-      if (employeeData.employeePAN === 'EXTRACTION_FAILED') {
-        const failedExtraction: FailedPanExtraction = {
-          fileName: file.name,
-          employeePath,
-          employeeName: employeeData.employeeName,
-          companyName,
-          extractedText: employeeData.pdfread
-        };
-        
-        setFailedPanExtractions(prev => [...prev, failedExtraction]);
-      }
-
-      const fileWithData = { file, data: employeeData };
-      setUploadedFiles(prev => [...prev, fileWithData]);
-      setExtractedDataList(prev => [...prev, employeeData]);
+    if (isDecryptionFailure(employeeData)) {
+      const failedExtraction: FailedPanExtraction = {
+        reason: 'decrypt',
+        details: PDF_DECRYPT_ERROR,
+        fileName: file.name,
+        employeePath,
+        employeeName: employeeData.employeeName,
+        companyName,
+        extractedText: employeeData.pdfread
+      };
+      setFailedPanExtractions(prev => [...prev, failedExtraction]);
+      persist(id => saveFailure(id, failureRecord(failedExtraction)));
+      return;
+    }
 
-      await mockAzureUpload(file, {
-        date: employeeData.date,
+    // Documents with an invalid PAN wait in the failed list until a reviewer corrects them
+    if (employeeData.panValidation.status === 'invalid') {
+      const failedExtraction: FailedPanExtraction = {
+        reason: 'pan',
+        details: employeeData.panValidation.reasons.join('; '),
+        fileName: file.name,
+        employeePath,
         employeeName: employeeData.employeeName,
-        employeePAN: employeeData.employeePAN,
-        financialYear: employeeData.financialYear,
-        assessmentYear: employeeData.assessmentYear,
-        employeePath: employeeData.employeePath
+        companyName,
+        extractedText: employeeData.pdfread,
+        file,
+        data: employeeData
+      };
+      
+      setFailedPanExtractions(prev => [...prev, failedExtraction]);
+      persist(id => saveFailure(id, failureRecord(failedExtraction), file)).then(saved => {
+        if (!saved) return;
+        setFailedPanExtractions(prev => prev.map(item => item === failedExtraction ? { ...item, id: saved.id } : item));
       });
+      return;
+    }
 
-    } catch (error) {
-      console.error('Error processing file:', error);
-      setError(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsProcessing(false);
+    await acceptDocument(file, employeeData);
+  };
+
+  const acceptDocument = async (file: File, employeeData: PdfData) => {
+    const fileWithData = { file, data: employeeData };
+    const position = nextPosition.current++;
+    setUploadedFiles(prev => [...prev, fileWithData]);
+    setExtractedDataList(prev => [...prev, employeeData]);
+    persist(id => saveDocument(id, position, file, employeeData)).then(saved => {
+      if (!saved) return;
+      setUploadedFiles(prev => prev.map(item => item.file === file ? { ...item, documentId: saved.id } : item));
+    });
+
+    await mockAzureUpload(file, {
+      date: employeeData.date,
+      employeeName: employeeData.employeeName,
+      employeePAN: employeeData.employeePAN,
+      financialYear: employeeData.financialYear,
+      assessmentYear: employeeData.assessmentYear,
+      employeePath: employeeData.employeePath
+    });
+  };
+
+  // A corrected document leaves the failed list and joins the batch, pending upload
+  const handleCorrection = async (index: number, values: Pick<PdfData, CorrectableField>) => {
+    const failed = failedPanExtractions[index];
+    if (!failed?.file || !failed.data) return;
+
+    const corrected = applyManualCorrection(failed.data, values);
+    const failureId = failed.id;
+    setFailedPanExtractions(prev => prev.filter(item => item !== failed));
+    if (failureId !== undefined) persist(id => deleteFailure(id, failureId));
+    await acceptDocument(failed.file, corrected);
+    toast({
+      title: 'Correction applied',
+      description: `${corrected.employeeName} (${corrected.employeePAN}) was added to the batch`
+    });
+  };
+
+  const runExtractionJob: JobRunner = async ({ id, file, employeePath, pathFields }, slot, signal) => {
+    console.log(`Processing file: ${file.name} from path: ${employeePath}`);
+
+    const contentHash = await hashFile(file);
+    const documents = await extractDataFromPdf(
+      file,
+      getProfileFields(pathFields.company),
+      getPasswords(pathFields, employeePath, file.name),
+      slot,
+      signal
+    );
+
+    if (documents.length > 1) {
+      console.log(`Split ${file.name} into ${documents.length} documents`);
+    }
+
+    // Each employee in a combined PDF gets a file holding only their pages
+    const documentFiles = await Promise.all(documents.map(extractedData => documents.length > 1
+      ? extractPageRange(file, extractedData.pageRange)
+      : Promise.resolve(file)));
+
+    for (let index = addedDocuments.current.get(id) ?? 0; index < documents.length; index++) {
+      throwIfAborted(signal);
+      await processDocument(documentFiles[index], documents[index], employeePath, pathFields, contentHash);
+      addedDocuments.current.set(id, index + 1);
     }
   };
 
+  const queue = useExtractionQueue(runExtractionJob, EXTRACTION_CONCURRENCY);
+
+  // Only the chosen document of each duplicate group is uploaded and signed
+  const duplicateGroups = findDuplicateGroups(uploadedFiles.map(item => item.data));
+  const excludedIndices = excludedDocuments(duplicateGroups, duplicateResolutions);
+  const unresolvedConflicts = duplicateGroups.filter(group => isUnresolved(group, duplicateResolutions));
+  const revisedIndices = new Set(
+    Object.values(duplicateResolutions).filter(resolution => resolution.revised).map(resolution => resolution.chosen)
+  );
+  const selectedFiles = uploadedFiles.flatMap((item, index) => excludedIndices.has(index) ? [] : [{
+    file: item.file,
+    data: revisedIndices.has(index) ? { ...item.data, revised: true } : item.data
+  }]);
+
+  // Part A / Part B mismatches block signing until a reviewer overrides them
+  const reconciliationRows = reconcileBatch(selectedFiles.map(item => item.data), tolerance);
+  const unreviewedMismatches = reconciliationRows.filter(row => row.status === 'mismatched' && !reconciliationOverrides[row.key]);
+
+  const handleOverride = (key: string, reviewer: string | null) => {
+    setReconciliationOverrides(prev => {
+      const { [key]: _removed, ...rest } = prev;
+      return reviewer ? { ...rest, [key]: reviewer } : rest;
+    });
+  };
+
+  // Every upload of the selected documents is recorded with the batch
+  const saveUploadAttempts = (status: 'success' | 'error', uploadId: string | null, message: string) => {
+    const attempts = uploadedFiles.flatMap((item, index) => excludedIndices.has(index) || item.documentId === undefined
+      ? []
+      : [{ documentId: item.documentId, status, uploadId, message }]);
+    if (attempts.length > 0) persist(id => recordUploadAttempts(id, attempts));
+  };
+
   const handleBulkApiUpload = async () => {
-    if (uploadedFiles.length === 0) {
+    if (unresolvedConflicts.length > 0) {
+      toast({
+        title: "Resolve conflicting versions",
+        description: `Pick the authoritative Form 16 in ${unresolvedConflicts.length} duplicate group(s) first`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (selectedFiles.length === 0) {
       toast({
         title: "No files to upload",
         description: "Please upload some PDF files first",
@@ -238,30 +441,32 @@ const PdfReader = () => {
     setError(null);
 
     try {
-      const result = await uploadToApi(uploadedFiles);
+      const result = await uploadToApi(selectedFiles);
       
       if (result.success) {
+        saveUploadAttempts('success', result.uploadId ?? null, result.message);
         toast({
           title: "Upload Successful!",
-          description: `Successfully uploaded ${uploadedFiles.length} files to the API`,
+          description: `Successfully uploaded ${selectedFiles.length} files to the API`,
           variant: "default"
         });
         
         setUploadedFiles(prev => 
-          prev.map(item => ({
+          prev.map((item, index) => excludedIndices.has(index) ? item : {
             ...item,
             data: { ...item.data, uploadStatus: 'success' as const }
-          }))
+          })
         );
         
         setExtractedDataList(prev => 
-          prev.map(item => ({ ...item, uploadStatus: 'success' as const }))
+          prev.map((item, index) => excludedIndices.has(index) ? item : { ...item, uploadStatus: 'success' as const })
         );
       } else {
         throw new Error(result.message || 'Upload failed');
       }
     } catch (error) {
       console.error('API upload error:', error);
+      saveUploadAttempts('error', null, error instanceof Error ? error.message : 'Unknown error');
       setError(`API upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       
       toast({
@@ -287,6 +492,15 @@ const PdfReader = () => {
     };
   }[]) => {
     setSignedDocuments(prev => [...prev, ...signedFiles]);
+
+    // The signing bridge hands back an empty stand-in for the original, with its name
+    const signatures = signedFiles.flatMap(({ originalFile, signedFile, signatureInfo }) => {
+      const signed = selectedFiles.find(item => item.file === originalFile)
+        ?? selectedFiles.find(item => item.file.name === originalFile.name);
+      const documentId = uploadedFiles.find(item => item.file === signed?.file)?.documentId;
+      return documentId === undefined ? [] : [{ ...signatureInfo, documentId, signedFile }];
+    });
+    if (signatures.length > 0) persist(id => saveSignatures(id, signatures));
     
     toast({
       title: "Digital Signing Complete!",
@@ -295,6 +509,86 @@ const PdfReader = () => {
     });
   };
 
+  // Puts a saved batch back on the page as it was left
+  const openBatch = async (id: number) => {
+    try {
+      const session = await fetchBatchSession(id);
+      const files: UploadedFile[] = session.documents.map(document => ({
+        file: base64ToFile(document.fileContent, document.fileName),
+        data: documentPdfData(document),
+        documentId: document.id
+      }));
+
+      setUploadedFiles(files);
+      setExtractedDataList(files.map(item => item.data));
+      setFailedPanExtractions(session.failures.flatMap(failure => failure.reason === 'unclassified' ? [] : [{
+        id: failure.id,
+        reason: failure.reason,
+        details: failure.details,
+        fileName: failure.fileName,
+        employeePath: failure.employeePath,
+        employeeName: failure.employeeName,
+        companyName: failure.companyName,
+        extractedText: failure.extractedText,
+        file: failure.fileContent ? base64ToFile(failure.fileContent, failure.fileName) : undefined,
+        data: failure.data ?? undefined
+      }]));
+      setUnclassifiedDocuments(session.failures.filter(failure => failure.reason === 'unclassified').map(failure => ({
+        fileName: failure.fileName,
+        employeePath: failure.employeePath,
+        companyName: failure.companyName,
+        extractedText: failure.extractedText
+      })));
+      setSignedDocuments(session.signatures.flatMap(signature => {
+        const original = files.find(item => item.documentId === signature.documentId);
+        return original ? [{
+          originalFile: original.file,
+          signedFile: base64ToFile(signature.fileContent, signature.fileName),
+          signatureInfo: {
+            signedBy: signature.signedBy,
+            signedAt: signature.signedAt,
+            reason: signature.reason,
+            location: signature.location,
+            certificateThumbprint: signature.certificateThumbprint,
+            isValid: signature.isValid
+          }
+        }] : [];
+      }));
+      setExpectedFinancialYear(session.batch.review.expectedFinancialYear);
+      setDuplicateResolutions(session.batch.review.duplicateResolutions);
+      setTolerance(session.batch.review.tolerance);
+      setReconciliationOverrides(session.batch.review.reconciliationOverrides);
+      setError(null);
+
+      nextPosition.current = session.documents.reduce((next, document) => Math.max(next, document.position + 1), 0);
+      batchRef.current = Promise.resolve(id);
+      setBatchId(id);
+    } catch (error) {
+      toast({
+        title: 'Could not open the batch',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // The page starts over; the next extracted file begins a new saved batch
+  const startNewBatch = () => {
+    setUploadedFiles([]);
+    setExtractedDataList([]);
+    setFailedPanExtractions([]);
+    setUnclassifiedDocuments([]);
+    setSignedDocuments([]);
+    setExpectedFinancialYear('');
+    setDuplicateResolutions({});
+    setTolerance(DEFAULT_TOLERANCE);
+    setReconciliationOverrides({});
+    setError(null);
+    nextPosition.current = 0;
+    batchRef.current = null;
+    setBatchId(null);
+  };
+
   const downloadSignedPDF = (signedDoc: SignedDocument) => {
     const url = URL.createObjectURL(signedDoc.signedFile);
     const link = document.createElement('a');
@@ -333,6 +627,11 @@ const PdfReader = () => {
           <p className="text-lg text-gray-600">
             Extract employee information from Form 16 PDFs
           </p>
+          {OFFLINE_MODE && (
+            <Badge variant="outline" className="mt-2 border-gray-400 text-gray-700" title="No requests leave this network">
+              Offline mode
+            </Badge>
+          )}
         </div>
 
         {error && (
@@ -347,10 +646,38 @@ const PdfReader = () => {
         <div className="grid lg:grid-cols-2 gap-6">
           <div className="space-y-6">
             <FileUpload 
-              onFileUpload={handleFileUpload}
-              isProcessing={isProcessing}
+              onFilesUpload={queue.enqueue}
+              isProcessing={queue.isRunning}
               error={error}
             />
+
+            <ExtractionQueuePanel
+              jobs={queue.jobs}
+              progress={queue.progress}
+              isPaused={queue.isPaused}
+              isRunning={queue.isRunning}
+              onPause={queue.pause}
+              onResume={queue.resume}
+              onCancel={queue.cancel}
+              onRetry={queue.retry}
+            />
+
+            <SavedBatches
+              currentBatchId={batchId}
+              disabled={queue.isRunning}
+              onOpen={openBatch}
+              onNew={startNewBatch}
+            />
+
+            <InboxBatches />
+
+            <ExtractionProfileManager
+              companyNames={Array.from(new Set(extractedDataList.map(data => data.companyName)))}
+            />
+
+            <PasswordSettings
+              companyNames={Array.from(new Set(extractedDataList.map(data => data.companyName)))}
+            />
             
             {extractedDataList.length > 0 && (
               <div className="space-y-3">
@@ -364,7 +691,8 @@ const PdfReader = () => {
                   </Button>
                   <Button 
                     onClick={handleBulkApiUpload}
-                    disabled={isApiUploading || uploadedFiles.length === 0}
+                    disabled={OFFLINE_MODE || isApiUploading || selectedFiles.length === 0 || unresolvedConflicts.length > 0}
+                    title={OFFLINE_MODE ? 'Uploads are disabled in offline mode' : undefined}
                     className="flex-1"
                   >
                     {isApiUploading ? (
@@ -375,17 +703,24 @@ const PdfReader = () => {
                     ) : (
                       <>
                         <Send className="mr-2 h-4 w-4" />
-                        Upload to API ({uploadedFiles.length})
+                        Upload to API ({selectedFiles.length})
                       </>
                     )}
                   </Button>
                 </div>
                 
                 <div className="flex gap-3">
-                  <DSCSigningDialog 
-                    selectedFiles={uploadedFiles}
-                    onSigningComplete={handleSigningComplete}
-                  />
+                  {unresolvedConflicts.length > 0 || unreviewedMismatches.length > 0 ? (
+                    <Button variant="outline" disabled className="flex items-center gap-2">
+                      <FileSignature className="h-4 w-4" />
+                      {unresolvedConflicts.length > 0 ? 'Resolve duplicates to sign' : 'Review TDS mismatches to sign'}
+                    </Button>
+                  ) : (
+                    <DSCSigningDialog 
+                      selectedFiles={selectedFiles}
+                      onSigningComplete={handleSigningComplete}
+                    />
+                  )}
                   {signedDocuments.length > 0 && (
                     <Button 
                       onClick={downloadAllSignedPDFs}
@@ -418,6 +753,8 @@ const PdfReader = () => {
                       key={index} 
                       data={data} 
                       isProcessing={false}
+                      file={uploadedFiles[index]?.file}
+                      passwords={uploadedFiles[index] ? getPasswords(data.pathFields, data.employeePath, uploadedFiles[index].file.name) : []}
                     />
                   ))}
                 </div>
@@ -466,8 +803,45 @@ const PdfReader = () => {
               </div>
             )}
 
+            <PasswordPromptDialog request={passwordRequest} onAnswer={answerPassword} />
+
+            <DuplicatePanel
+              documents={uploadedFiles}
+              groups={duplicateGroups}
+              resolutions={duplicateResolutions}
+              onResolve={(key, resolution) => setDuplicateResolutions(prev => ({ ...prev, [key]: resolution }))}
+            />
+
+            <ReconciliationReport
+              rows={reconciliationRows}
+              tolerance={tolerance}
+              onToleranceChange={setTolerance}
+              overrides={reconciliationOverrides}
+              onOverride={handleOverride}
+            />
+
+            {extractedDataList.length > 0 && (
+              <TaxRecomputationReport documents={extractedDataList} ruleSets={taxRules} />
+            )}
+
+            {extractedDataList.length > 0 && (
+              <YearValidationPanel
+                documents={extractedDataList}
+                expectedFinancialYear={expectedFinancialYear}
+                onExpectedFinancialYearChange={setExpectedFinancialYear}
+              />
+            )}
+
             {failedPanExtractions.length > 0 && (
-              <FailedPanList failedExtractions={failedPanExtractions} />
+              <FailedPanList
+                failedExtractions={failedPanExtractions}
+                onCorrect={handleCorrection}
+                getPreviewPasswords={failed => failed.data ? getPasswords(failed.data.pathFields, failed.employeePath, failed.fileName) : []}
+              />
+            )}
+
+            {unclassifiedDocuments.length > 0 && (
+              <UnclassifiedList documents={unclassifiedDocuments} />
             )}
           </div>
         </div>
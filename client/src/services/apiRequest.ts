@@ -0,0 +1,14 @@
+// JSON request to the app's own API; error responses carry { error } from the server
+export const request = async <T,>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || response.statusText);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
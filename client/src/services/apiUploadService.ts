@@ -1,3 +1,4 @@
+import { OFFLINE_MODE } from '@/lib/offlineMode';
 
 interface EmployeeData {
   date: string;
@@ -17,7 +18,7 @@ interface ApiUploadResponse {
   uploadId?: string;
 }
 
-const convertFileToBase64 = (file: File): Promise<string> => {
+export const convertFileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -34,6 +35,10 @@ const convertFileToBase64 = (file: File): Promise<string> => {
 export const uploadToApi = async (
   files: { file: File; data: EmployeeData }[]
 ): Promise<ApiUploadResponse> => {
+  if (OFFLINE_MODE) {
+    return { success: false, message: 'Uploads to the Form 16 API are disabled in offline mode' };
+  }
+
   try {
     console.log('Converting files to base64 and preparing payload...');
 
@@ -0,0 +1,80 @@
+import type {
+  Batch,
+  BatchFailure,
+  InsertBatch,
+  InsertBatchFailure,
+  InsertSignature,
+  InsertUploadAttempt,
+  Signature,
+  UploadAttempt
+} from '@shared/schema';
+import { documentRecord, type BatchSession, type BatchSummary, type StoredDocument } from '@shared/batches';
+import type { Page } from '@shared/batchQueries';
+import type { PdfData } from '@shared/form16';
+import { request } from '@/services/apiRequest';
+import { convertFileToBase64 } from '@/services/apiUploadService';
+
+// The most recently changed batches
+export const fetchBatches = () =>
+  request<Page<BatchSummary>>('/api/batches').then(page => page.items);
+
+export const fetchBatchSession = (id: number) =>
+  request<BatchSession>(`/api/batches/${id}`);
+
+export const createBatch = (batch: InsertBatch) =>
+  request<Batch>('/api/batches', {
+    method: 'POST',
+    body: JSON.stringify(batch)
+  });
+
+export const updateBatch = (id: number, batch: Partial<InsertBatch>) =>
+  request<Batch>(`/api/batches/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(batch)
+  });
+
+export const deleteBatch = (id: number) =>
+  request<void>(`/api/batches/${id}`, { method: 'DELETE' });
+
+// position is the document's place in the batch, which duplicate resolutions refer to
+export const saveDocument = async (batchId: number, position: number, file: File, data: PdfData) => {
+  const { document, fields } = documentRecord(data, position, file.name, await convertFileToBase64(file));
+  return request<StoredDocument>(`/api/batches/${batchId}/documents`, {
+    method: 'POST',
+    body: JSON.stringify({ ...document, fields })
+  });
+};
+
+export const saveFailure = async (batchId: number, failure: Omit<InsertBatchFailure, 'fileContent'>, file?: File) =>
+  request<BatchFailure>(`/api/batches/${batchId}/failures`, {
+    method: 'POST',
+    body: JSON.stringify({ ...failure, fileContent: file ? await convertFileToBase64(file) : null })
+  });
+
+export const deleteFailure = (batchId: number, id: number) =>
+  request<void>(`/api/batches/${batchId}/failures/${id}`, { method: 'DELETE' });
+
+export const recordUploadAttempts = (batchId: number, attempts: InsertUploadAttempt[]) =>
+  request<UploadAttempt[]>(`/api/batches/${batchId}/upload-attempts`, {
+    method: 'POST',
+    body: JSON.stringify(attempts)
+  });
+
+export const saveSignatures = async (
+  batchId: number,
+  signatures: (Omit<InsertSignature, 'fileName' | 'fileContent'> & { signedFile: File })[]
+) => {
+  const body = await Promise.all(signatures.map(async ({ signedFile, ...signature }) => ({
+    ...signature,
+    fileName: signedFile.name,
+    fileContent: await convertFileToBase64(signedFile)
+  })));
+  return request<Signature[]>(`/api/batches/${batchId}/signatures`, {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+};
+
+// Files come back from a saved batch as base64
+export const base64ToFile = (content: string, fileName: string) =>
+  new File([Uint8Array.from(atob(content), char => char.charCodeAt(0))], fileName, { type: 'application/pdf' });
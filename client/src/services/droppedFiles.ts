@@ -0,0 +1,14 @@
+import type { FileWithPath } from 'react-dropzone';
+
+// Where a file sat in what was picked or dropped, file name included. The folder picker
+// fills webkitRelativePath, but dropped files leave it empty; react-dropzone walks
+// dropped folders with webkitGetAsEntry (reading every readEntries batch) and records
+// the path as `/Company/Employee/file.pdf`, or `./file.pdf` for a file dropped loose.
+export const relativePathOf = (file: File): string => {
+  const { relativePath, path } = file as FileWithPath;
+  const recorded = file.webkitRelativePath || relativePath || path || file.name;
+  return recorded.replace(/^\.?\/+/, '');
+};
+
+// The folders above a file, or '' for a loose file
+export const folderOf = (path: string): string => path.slice(0, Math.max(0, path.lastIndexOf('/')));
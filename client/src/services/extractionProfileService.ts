@@ -0,0 +1,38 @@
+import type {
+  CompanyProfile,
+  ExtractionProfile,
+  InsertExtractionProfile
+} from '@shared/schema';
+import { request } from '@/services/apiRequest';
+
+export const fetchProfiles = () =>
+  request<ExtractionProfile[]>('/api/profiles');
+
+export const createProfile = (profile: InsertExtractionProfile) =>
+  request<ExtractionProfile>('/api/profiles', {
+    method: 'POST',
+    body: JSON.stringify(profile)
+  });
+
+export const updateProfile = (id: number, profile: Partial<InsertExtractionProfile>) =>
+  request<ExtractionProfile>(`/api/profiles/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(profile)
+  });
+
+export const deleteProfile = (id: number) =>
+  request<void>(`/api/profiles/${id}`, { method: 'DELETE' });
+
+export const fetchCompanyProfiles = () =>
+  request<CompanyProfile[]>('/api/company-profiles');
+
+export const assignCompanyProfile = (companyName: string, profileId: number) =>
+  request<CompanyProfile>('/api/company-profiles', {
+    method: 'PUT',
+    body: JSON.stringify({ companyName, profileId })
+  });
+
+export const removeCompanyProfile = (companyName: string) =>
+  request<void>(`/api/company-profiles/${encodeURIComponent(companyName)}`, {
+    method: 'DELETE'
+  });
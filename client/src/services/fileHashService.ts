@@ -0,0 +1,7 @@
+// Hex SHA-256 of a file's bytes, used to spot the same PDF uploaded twice
+export const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
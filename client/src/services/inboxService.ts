@@ -0,0 +1,5 @@
+import type { InboxStatus } from '@shared/inbox';
+import { request } from '@/services/apiRequest';
+
+export const fetchInboxStatus = () =>
+  request<InboxStatus>('/api/inbox');
@@ -0,0 +1,46 @@
+import { createWorker } from 'tesseract.js';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Worker script, WebAssembly core and English language data are served by the app
+// itself (server/ocrAssets.ts), so scanned PDFs can be read without a CDN.
+const OCR_ASSETS_URL = `${window.location.origin}/ocr`;
+
+// Scanned Form 16s are usually 150-200 dpi; rendering at twice the PDF size keeps
+// small table figures legible for recognition.
+const RENDER_SCALE = 2;
+
+const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is not available');
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+// Recognises the given pages of a pdf.js document. Recognition runs in a tesseract.js
+// Web Worker; only rendering the page image happens on the main thread.
+export const recognizePages = async (pdf: PDFDocumentProxy, pageNumbers: number[]): Promise<Map<number, string>> => {
+  const worker = await createWorker('eng', 1, {
+    workerPath: `${OCR_ASSETS_URL}/worker/worker.min.js`,
+    corePath: `${OCR_ASSETS_URL}/core`,
+    langPath: `${OCR_ASSETS_URL}/lang`,
+    gzip: true
+  });
+
+  const texts = new Map<number, string>();
+  try {
+    for (const pageNumber of pageNumbers) {
+      const canvas = await renderPage(pdf, pageNumber);
+      const { data } = await worker.recognize(canvas);
+      texts.set(pageNumber, data.text.replace(/\s+/g, ' ').trim());
+    }
+  } finally {
+    await worker.terminate();
+  }
+  return texts;
+};
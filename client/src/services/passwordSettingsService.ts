@@ -0,0 +1,60 @@
+import * as XLSX from 'xlsx';
+import type {
+  CompanyPasswordTemplates,
+  Employee,
+  InsertEmployee
+} from '@shared/schema';
+import { parseDateOfBirth } from '@shared/passwords';
+import { request } from '@/services/apiRequest';
+
+export const fetchPasswordTemplates = () =>
+  request<CompanyPasswordTemplates[]>('/api/company-passwords');
+
+export const savePasswordTemplates = (companyName: string, templates: string[]) =>
+  request<CompanyPasswordTemplates>('/api/company-passwords', {
+    method: 'PUT',
+    body: JSON.stringify({ companyName, templates })
+  });
+
+export const removePasswordTemplates = (companyName: string) =>
+  request<void>(`/api/company-passwords/${encodeURIComponent(companyName)}`, {
+    method: 'DELETE'
+  });
+
+export const fetchEmployees = () =>
+  request<Employee[]>('/api/employees');
+
+export const importEmployees = (companyName: string, employees: InsertEmployee[]) =>
+  request<Employee[]>(`/api/employees/${encodeURIComponent(companyName)}`, {
+    method: 'PUT',
+    body: JSON.stringify(employees)
+  });
+
+const findColumn = (headers: string[], pattern: RegExp) => headers.find(header => pattern.test(header));
+
+const cellText = (value: unknown) => value instanceof Date
+  ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+  : String(value ?? '').trim();
+
+// Reads an employee master exported from payroll (Excel or CSV) with name, PAN and
+// date of birth columns; header names vary between vendors so they are matched loosely.
+export const parseEmployeeMaster = async (file: File): Promise<InsertEmployee[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+  if (rows.length === 0) return [];
+
+  const headers = Object.keys(rows[0]);
+  const nameColumn = findColumn(headers, /name/i);
+  const panColumn = findColumn(headers, /\bpan\b/i);
+  const dobColumn = findColumn(headers, /birth|\bdob\b/i);
+  if (!nameColumn) throw new Error('The employee master needs an employee name column');
+
+  return rows
+    .map(row => ({
+      employeeName: cellText(row[nameColumn]),
+      pan: panColumn ? cellText(row[panColumn]).toUpperCase() : '',
+      dateOfBirth: dobColumn ? parseDateOfBirth(cellText(row[dobColumn])) || '' : ''
+    }))
+    .filter(employee => employee.employeeName);
+};
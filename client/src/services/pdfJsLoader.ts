@@ -0,0 +1,32 @@
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// pdf.js and its worker are bundled from the installed pdfjs-dist, so every extraction
+// path parses with the same version and nothing is fetched from a CDN. The data files
+// pdf.js loads on demand are served by the app itself (server/pdfAssets.ts).
+const PDF_ASSETS_URL = `${window.location.origin}/pdfjs`;
+
+export const PDF_DOCUMENT_OPTIONS = {
+  cMapUrl: `${PDF_ASSETS_URL}/cmaps/`,
+  cMapPacked: true,
+  standardFontDataUrl: `${PDF_ASSETS_URL}/standard_fonts/`,
+  iccUrl: `${PDF_ASSETS_URL}/iccs/`,
+  wasmUrl: `${PDF_ASSETS_URL}/wasm/`
+};
+
+export type PdfJs = typeof import('pdfjs-dist');
+
+let loading: Promise<PdfJs> | null = null;
+
+// Loads pdf.js once, in its own chunk so the main bundle stays small
+export const loadPdfJs = (): Promise<PdfJs> => {
+  loading ??= import('pdfjs-dist')
+    .then(pdfjsLib => {
+      pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+      return pdfjsLib;
+    })
+    .catch(error => {
+      loading = null;
+      throw new Error(`Could not load PDF.js: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  return loading;
+};
@@ -0,0 +1,43 @@
+import { isPasswordError } from '@shared/passwords';
+import type { PDFDocumentProxy, PDFWorker } from 'pdfjs-dist';
+import { PDF_DOCUMENT_OPTIONS, type PdfJs } from '@/services/pdfJsLoader';
+
+// Asks the user for a password; resolves to null when they skip the file
+export type PasswordPrompt = (incorrect: boolean) => Promise<string | null>;
+
+// Opens a PDF with pdf.js. Encrypted files are tried without a password, then with each
+// derived password, and finally with passwords typed by the user until they give up.
+// `worker` is a pdf.js PDFWorker to parse with instead of a new one per document.
+export const openPdfDocument = async (
+  pdfjsLib: PdfJs,
+  data: Uint8Array,
+  passwords: string[],
+  promptPassword: PasswordPrompt,
+  worker?: PDFWorker
+): Promise<PDFDocumentProxy> => {
+  // pdf.js transfers the buffer to its worker, so every attempt gets its own copy
+  const open = (password?: string) => pdfjsLib.getDocument({ ...PDF_DOCUMENT_OPTIONS, data: data.slice(), password, worker }).promise;
+  let lastError: unknown;
+
+  for (const password of [undefined, ...passwords]) {
+    try {
+      return await open(password);
+    } catch (error) {
+      if (!isPasswordError(error)) throw error;
+      lastError = error;
+    }
+  }
+
+  let incorrect = passwords.length > 0;
+  for (;;) {
+    const password = await promptPassword(incorrect);
+    if (password === null) throw lastError;
+    try {
+      return await open(password);
+    } catch (error) {
+      if (!isPasswordError(error)) throw error;
+      lastError = error;
+      incorrect = true;
+    }
+  }
+};
@@ -0,0 +1,24 @@
+import { PDFDocument } from 'pdf-lib';
+
+interface PageRange {
+  start: number;
+  end: number;
+}
+
+// Copies the given 1-based page range of a PDF into a new file, so each employee
+// found in a combined PDF is uploaded and signed with only their own pages.
+export const extractPageRange = async (file: File, range: PageRange): Promise<File> => {
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const target = await PDFDocument.create();
+
+  const pageIndices = Array.from(
+    { length: range.end - range.start + 1 },
+    (_, index) => range.start - 1 + index
+  );
+  const pages = await target.copyPages(source, pageIndices);
+  pages.forEach(page => target.addPage(page));
+
+  const bytes = await target.save();
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  return new File([bytes], `${baseName}_p${range.start}-${range.end}.pdf`, { type: 'application/pdf' });
+};
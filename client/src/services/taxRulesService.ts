@@ -0,0 +1,17 @@
+import type { InsertTaxRuleSet, TaxRuleSetRecord } from '@shared/schema';
+import { request } from '@/services/apiRequest';
+
+export const fetchTaxRules = () =>
+  request<TaxRuleSetRecord[]>('/api/tax-rules');
+
+export const saveTaxRules = (ruleSet: InsertTaxRuleSet) =>
+  request<TaxRuleSetRecord>('/api/tax-rules', {
+    method: 'PUT',
+    body: JSON.stringify(ruleSet)
+  });
+
+// A rule set file holds one rule set or a list of them, in the shape of /api/tax-rules
+export const readTaxRulesFile = async (file: File): Promise<InsertTaxRuleSet[]> => {
+  const content = JSON.parse(await file.text());
+  return Array.isArray(content) ? content : [content];
+};
@@ -0,0 +1,66 @@
+import type { PDFWorker } from 'pdfjs-dist';
+import type { ExtractedPdfFields } from '@shared/form16';
+import type { PdfJs } from '@/services/pdfJsLoader';
+import type { ExtractionRequest, ExtractionResponse } from '@/workers/extractionWorker';
+
+// Each extraction queue slot owns one pdf.js worker for parsing and one extraction
+// worker for the Form 16 rules, so the number of Web Workers stays at the queue's
+// concurrency however many files are dropped.
+interface Slot {
+  pdfWorker?: PDFWorker;
+  extractionWorker?: Worker;
+  pending: Map<number, { resolve: (documents: ExtractedPdfFields[]) => void; reject: (error: Error) => void }>;
+}
+
+const slots = new Map<number, Slot>();
+let nextRequestId = 1;
+
+const getSlot = (index: number): Slot => {
+  let slot = slots.get(index);
+  if (!slot) {
+    slot = { pending: new Map() };
+    slots.set(index, slot);
+  }
+  return slot;
+};
+
+export const getPdfWorker = (pdfjsLib: PdfJs, index: number): PDFWorker => {
+  const slot = getSlot(index);
+  slot.pdfWorker ??= pdfjsLib.PDFWorker.create({ name: `pdf-worker-${index}` });
+  return slot.pdfWorker;
+};
+
+const getExtractionWorker = (index: number): Worker => {
+  const slot = getSlot(index);
+  if (!slot.extractionWorker) {
+    const worker = new Worker(new URL('../workers/extractionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+      const request = slot.pending.get(event.data.id);
+      if (!request) return;
+      slot.pending.delete(event.data.id);
+      if ('error' in event.data) {
+        request.reject(new Error(event.data.error));
+      } else {
+        request.resolve(event.data.documents);
+      }
+    };
+    worker.onerror = (event) => {
+      // A crashed worker fails its requests and is recreated on the next one
+      slot.pending.forEach(request => request.reject(new Error(event.message || 'Extraction worker failed')));
+      slot.pending.clear();
+      worker.terminate();
+      slot.extractionWorker = undefined;
+    };
+    slot.extractionWorker = worker;
+  }
+  return slot.extractionWorker;
+};
+
+export const extractInWorker = (index: number, request: Omit<ExtractionRequest, 'id'>): Promise<ExtractedPdfFields[]> => {
+  const worker = getExtractionWorker(index);
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    getSlot(index).pending.set(id, { resolve, reject });
+    worker.postMessage({ ...request, id });
+  });
+};
@@ -0,0 +1,33 @@
+import { extractForm16Documents, type ExtractedPdfFields, type PageLayout, type TextSource } from '@shared/form16';
+import type { FieldDefinition } from '@shared/extractionProfiles';
+
+// Runs the Form 16 extraction rules off the main thread. pdf.js parsing and OCR happen
+// before this; the worker only turns page texts and layouts into extracted fields.
+
+export interface ExtractionRequest {
+  id: number;
+  pages: string[];
+  fileName: string;
+  fields: FieldDefinition[];
+  pageSources: TextSource[];
+  layouts: PageLayout[];
+}
+
+export type ExtractionResponse =
+  | { id: number; documents: ExtractedPdfFields[] }
+  | { id: number; error: string };
+
+// Dedicated worker scope; the DOM lib types `self` as a window
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ExtractionRequest>) => void) | null;
+  postMessage: (message: ExtractionResponse) => void;
+};
+
+scope.onmessage = (event) => {
+  const { id, pages, fileName, fields, pageSources, layouts } = event.data;
+  try {
+    scope.postMessage({ id, documents: extractForm16Documents(pages, fileName, fields, pageSources, layouts) });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,298 @@
+// Batch sessions saved by the upload page as it works, so a batch can be reopened after a
+// refresh: its documents with their files, the failures, upload attempts and signatures.
+// /api/batches and /api/documents are also the API for other tools, such as an ERP
+// integration: lists filter on the documents' fields and statuses and are paged with a
+// cursor (see shared/batchQueries.ts).
+
+import type { Express } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { asyncHandler, parseId } from "./http";
+import { documentPdfData, documentRecord } from "@shared/batches";
+import { profileFields } from "@shared/extractionProfiles";
+import {
+  batchListQuerySchema,
+  decodeCursor,
+  documentListQuerySchema,
+  type BatchSort,
+  type Cursor,
+  type DocumentSort,
+} from "@shared/batchQueries";
+import { applyManualCorrection, type PdfData } from "@shared/form16";
+import {
+  insertBatchDocumentSchema,
+  insertBatchFailureSchema,
+  insertBatchSchema,
+  insertExtractedFieldSchema,
+  insertSignatureSchema,
+  insertUploadAttemptSchema,
+  type InsertBatchDocument,
+  type InsertExtractedField,
+} from "@shared/schema";
+
+// Every document has exactly one provenance row for each header field
+const documentWithFieldsSchema = insertBatchDocumentSchema.partial({ position: true }).extend({
+  fields: z.array(insertExtractedFieldSchema).refine(
+    (fields) => fields.length === profileFields.length && profileFields.every((field) => fields.some((row) => row.field === field)),
+    `Fields must have one row for each of ${profileFields.join(", ")}`,
+  ),
+});
+
+const newDocumentSchema = documentWithFieldsSchema.extend({
+  batchId: z.number().int(),
+});
+
+// Header fields are changed as a manual correction, which re-checks the PAN and records
+// the values replaced; the upload status is set as given
+const documentUpdateSchema = insertBatchDocumentSchema.pick({
+  employeePAN: true,
+  employeeName: true,
+  financialYear: true,
+  uploadStatus: true,
+  uploadId: true,
+}).partial();
+
+// The query's cursor, or an error message when it is not one this API handed out
+function readCursor(cursor: string | undefined, sort: DocumentSort | BatchSort): { cursor?: Cursor; error?: string } {
+  if (cursor === undefined) return {};
+  const decoded = decodeCursor(cursor, sort);
+  return decoded ? { cursor: decoded } : { error: 'Invalid cursor' };
+}
+
+export function registerBatches(app: Express) {
+  app.get('/api/batches', asyncHandler(async (req, res) => {
+    const parsed = batchListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const { cursor, error } = readCursor(parsed.data.cursor, parsed.data.sort);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    res.json(await storage.getBatches(parsed.data, cursor));
+  }));
+
+  app.get('/api/batches/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const session = await storage.getBatchSession(id);
+    if (!session) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.json(session);
+  }));
+
+  app.post('/api/batches', asyncHandler(async (req, res) => {
+    const parsed = insertBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    res.status(201).json(await storage.createBatch(parsed.data));
+  }));
+
+  app.patch('/api/batches/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = insertBatchSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const batch = await storage.updateBatch(id, parsed.data);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.json(batch);
+  }));
+
+  app.delete('/api/batches/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const deleted = await storage.deleteBatch(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.status(204).end();
+  }));
+
+  app.post('/api/batches/:id/documents', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = documentWithFieldsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const { fields, ...document } = parsed.data;
+    const saved = await storage.addDocument(id, document, fields);
+    if (!saved) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.status(201).json(saved);
+  }));
+
+  app.post('/api/batches/:id/failures', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = insertBatchFailureSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const failure = await storage.addFailure(id, parsed.data);
+    if (!failure) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.status(201).json(failure);
+  }));
+
+  // A failure leaves the batch once it is corrected and saved as a document
+  app.delete('/api/batches/:id/failures/:failureId', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const failureId = parseId(req.params.failureId);
+    if (id === undefined || failureId === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const deleted = await storage.deleteFailure(id, failureId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Failure not found' });
+    }
+    res.status(204).end();
+  }));
+
+  app.post('/api/batches/:id/upload-attempts', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = z.array(insertUploadAttemptSchema).min(1).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const attempts = await storage.recordUploadAttempts(id, parsed.data);
+    if (!attempts) {
+      return res.status(404).json({ error: 'Batch or document not found' });
+    }
+    res.status(201).json(attempts);
+  }));
+
+  app.post('/api/batches/:id/signatures', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = z.array(insertSignatureSchema).min(1).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const saved = await storage.addSignatures(id, parsed.data);
+    if (!saved) {
+      return res.status(404).json({ error: 'Batch or document not found' });
+    }
+    res.status(201).json(saved);
+  }));
+
+  app.get('/api/documents', asyncHandler(async (req, res) => {
+    const parsed = documentListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const { cursor, error } = readCursor(parsed.data.cursor, parsed.data.sort);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    res.json(await storage.getDocuments(parsed.data, cursor));
+  }));
+
+  app.get('/api/documents/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const document = await storage.getDocument(id);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    res.json(document);
+  }));
+
+  app.post('/api/documents', asyncHandler(async (req, res) => {
+    const parsed = newDocumentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const { batchId, fields, ...document } = parsed.data;
+    const saved = await storage.addDocument(batchId, document, fields);
+    if (!saved) {
+      return res.status(400).json({ error: 'Unknown batch' });
+    }
+    res.status(201).json(saved);
+  }));
+
+  app.patch('/api/documents/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = documentUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const existing = await storage.getDocument(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const { uploadStatus, uploadId, ...corrections } = parsed.data;
+    let update: Partial<InsertBatchDocument> = {};
+    let fields: InsertExtractedField[] | undefined;
+    if (Object.keys(corrections).length > 0) {
+      const data = documentPdfData(existing);
+      let corrected: PdfData;
+      try {
+        corrected = applyManualCorrection(data, {
+          employeePAN: data.employeePAN,
+          employeeName: data.employeeName,
+          financialYear: data.financialYear,
+          ...corrections,
+        });
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      }
+      if (corrected.panValidation.status === 'invalid') {
+        return res.status(400).json({ error: `Invalid PAN: ${corrected.panValidation.reasons.join('; ')}` });
+      }
+      const record = documentRecord(corrected, existing.position, existing.fileName, existing.fileContent);
+      const { fileContent: _fileContent, ...document } = record.document;
+      update = document;
+      fields = record.fields;
+    }
+
+    const document = await storage.updateDocument(existing.id, {
+      ...update,
+      ...(uploadStatus !== undefined && { uploadStatus }),
+      ...(uploadId !== undefined && { uploadId }),
+    }, fields);
+    res.json(document);
+  }));
+
+  app.delete('/api/documents/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const deleted = await storage.deleteDocument(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    res.status(204).end();
+  }));
+}
@@ -0,0 +1,324 @@
+// Headless batch extraction for month-end runs on a server. It walks the same
+// Company/Employee/PDF folder tree the browser upload accepts and runs every PDF through
+// the extraction pipeline behind /api/extract.
+//
+//   npm run form16 -- extract <dir> --out results.xlsx [--profile <name|profile.json>]
+//                     [--fy 2024-25] [--path-template <template>] [--company <name>]
+//                     [--max-failures <count|percent%>]
+
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import * as XLSX from "xlsx";
+import { fromZodError } from "zod-validation-error";
+import { resolvePasswords, resolveProfileFields } from "./companySettings";
+import { extractPdfData } from "./extraction";
+import { storage } from "./storage";
+import { insertExtractionProfileSchema } from "@shared/schema";
+import { profileFields, type FieldDefinition, type ProfileField } from "@shared/extractionProfiles";
+import { isDecryptionFailure, isUnclassified, PDF_DECRYPT_ERROR, type PdfData } from "@shared/form16";
+import { recomputeTax, type TaxRecomputation } from "@shared/taxEngine";
+import { financialYearSchema, validateYears, type YearValidation } from "@shared/yearValidation";
+import { DEFAULT_PATH_TEMPLATE, pathTemplateSchema, resolvePathFields } from "@shared/pathTemplates";
+import { isPdfFileName, isZipFileName, listArchivePdfs, type ArchiveContents } from "@shared/zipArchive";
+
+const USAGE = `Usage: form16 extract <dir> --out <results.json|.csv|.xlsx> [options]
+
+<dir> is the folder you would drop into the browser: its PDFs are read from
+<dir>/<Employee>/*.pdf (or deeper, or from ZIP archives), and <dir>'s name is
+the company.
+
+Options:
+  --out <file>             Results file; the format follows the extension
+  --profile <name|file>    Extraction profile name or a profile JSON file (default: the
+                           profile assigned to each company, else Default)
+  --fy <YYYY-YY>           Expected financial year of the batch
+  --path-template <t>      How folders map to company, FY, employee code, name and
+                           PAN, e.g. "{company}/{fy}/{employee}" (default: ${DEFAULT_PATH_TEMPLATE})
+  --company <name>         Company name for templates without {company}
+  --max-failures <n|n%>    Failed extractions tolerated before exiting with code 1 (default: 0)
+`;
+
+const OUTPUT_FORMATS = [".json", ".csv", ".xlsx"];
+
+// Result columns of the header fields, each followed in the report by where it was read
+// and how far it can be trusted
+const FIELD_COLUMNS: Record<ProfileField, string> = {
+  date: "Date",
+  employeeName: "Employee Name",
+  employeePAN: "Employee PAN",
+  financialYear: "Financial Year",
+  assessmentYear: "Assessment Year",
+};
+
+// Files parsed at once; pdf.js in Node parses on the main thread, so this only overlaps reads
+const CONCURRENCY = 4;
+
+class UsageError extends Error {}
+
+interface ExtractionResult extends PdfData {
+  fileName: string;
+  yearValidation: YearValidation;
+  taxRecomputation: TaxRecomputation;
+}
+
+interface FailedExtraction {
+  reason: "pan" | "decrypt";
+  details: string;
+  fileName: string;
+  employeePath: string;
+  employeeName: string;
+  companyName: string;
+}
+
+const FAILURE_LABELS: Record<FailedExtraction["reason"], string> = {
+  pan: "Invalid PAN",
+  decrypt: "Failed to decrypt",
+};
+
+// A count, or a percentage of the documents found
+function parseThreshold(value: string): (total: number) => number {
+  const match = value.match(/^(\d+(?:\.\d+)?)(%?)$/);
+  if (!match) throw new UsageError(`--max-failures must be a count or a percentage, got "${value}"`);
+  const amount = Number(match[1]);
+  return match[2] ? (total) => (total * amount) / 100 : () => amount;
+}
+
+// Without --profile each company's assigned profile is used, as in the browser
+async function loadProfileFields(profile?: string): Promise<FieldDefinition[] | undefined> {
+  if (!profile) return undefined;
+
+  const profiles = await storage.getExtractionProfiles();
+  const named = profiles.find((entry) => entry.name.toLowerCase() === profile.toLowerCase());
+  if (named) return named.fields;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(profile, "utf8"));
+  } catch {
+    const names = profiles.map((entry) => entry.name).join(", ");
+    throw new UsageError(`--profile "${profile}" is neither a profile (${names}) nor a readable JSON file`);
+  }
+  const parsed = insertExtractionProfileSchema.safeParse(json);
+  if (!parsed.success) throw new UsageError(`Invalid profile ${profile}: ${fromZodError(parsed.error).message}`);
+  return parsed.data.fields;
+}
+
+// PDFs under the dropped folder with their employee path, in the form FileUpload builds
+// from webkitRelativePath: the dropped folder's name, then the subfolders. ZIP archives
+// are opened in place, as the dropzone does.
+async function findPdfFiles(root: string): Promise<ArchiveContents> {
+  const base = path.dirname(root);
+  const found: ArchiveContents = { pdfs: [], skipped: [] };
+
+  const walk = async (dir: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      const employeePath = path.relative(base, dir).split(path.sep).join("/");
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else if (entry.isFile() && isPdfFileName(entry.name)) {
+        const read = async () => new Uint8Array(await fs.readFile(entryPath));
+        found.pdfs.push({ path: `${employeePath}/${entry.name}`, fileName: entry.name, employeePath, read });
+      } else if (entry.isFile() && isZipFileName(entry.name)) {
+        const archivePath = `${employeePath}/${entry.name}`;
+        try {
+          const contents = await listArchivePdfs(new Blob([await fs.readFile(entryPath)]), archivePath);
+          found.pdfs.push(...contents.pdfs);
+          found.skipped.push(...contents.skipped);
+        } catch (error) {
+          found.skipped.push({ path: archivePath, reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  };
+  await walk(root);
+  return found;
+}
+
+// Same rules as the browser's failed list: undecryptable files and invalid PANs
+function toFailure(result: ExtractionResult): FailedExtraction | null {
+  const reason = isDecryptionFailure(result) ? "decrypt" : result.panValidation.status === "invalid" ? "pan" : null;
+  if (!reason) return null;
+  return {
+    reason,
+    details: reason === "decrypt" ? PDF_DECRYPT_ERROR : result.panValidation.reasons.join("; "),
+    fileName: result.fileName,
+    employeePath: result.employeePath,
+    employeeName: result.employeeName,
+    companyName: result.companyName,
+  };
+}
+
+function resultRow(result: ExtractionResult) {
+  return {
+    "Company Name": result.companyName,
+    "File Path": result.employeePath,
+    "File Name": result.fileName,
+    "Document Type": result.documentType,
+    "Employee Name": result.employeeName,
+    "Employee PAN": result.employeePAN,
+    "Employee Code": result.pathFields.empCode ?? "",
+    "PAN Status": result.panValidation.status,
+    "Financial Year": result.financialYear,
+    "Assessment Year": result.assessmentYear,
+    "Year Status": result.yearValidation.status,
+    Date: result.date,
+    "Gross Salary": result.partB.grossSalary,
+    "Net Tax Payable": result.partB.netTaxPayable,
+    "Tax Recomputation": result.taxRecomputation.status,
+    ...Object.fromEntries(profileFields.flatMap((field) => [
+      [`${FIELD_COLUMNS[field]} Source`, result.provenance[field].source],
+      [`${FIELD_COLUMNS[field]} Confidence`, result.provenance[field].confidence],
+    ])),
+  };
+}
+
+function failureRow(failed: FailedExtraction) {
+  return {
+    Reason: FAILURE_LABELS[failed.reason],
+    Details: failed.details,
+    "Employee Name": failed.employeeName,
+    "Company Name": failed.companyName,
+    "File Path": failed.employeePath,
+    "File Name": failed.fileName,
+  };
+}
+
+async function writeReport(file: string, rows: Record<string, unknown>[], json: unknown, sheetName: string) {
+  const format = path.extname(file).toLowerCase();
+  await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  if (format === ".json") {
+    await fs.writeFile(file, JSON.stringify(json, null, 2));
+    return;
+  }
+
+  const worksheet = XLSX.utils.json_to_sheet(rows);
+  if (format === ".csv") {
+    await fs.writeFile(file, XLSX.utils.sheet_to_csv(worksheet));
+  } else {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+    await fs.writeFile(file, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+  }
+}
+
+// results.xlsx -> results.failed.xlsx
+const failedReportPath = (out: string) => {
+  const extension = path.extname(out);
+  return `${out.slice(0, -extension.length)}.failed${extension}`;
+};
+
+async function extract(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: "string" },
+      profile: { type: "string" },
+      fy: { type: "string" },
+      "path-template": { type: "string" },
+      company: { type: "string" },
+      "max-failures": { type: "string", default: "0" },
+    },
+  });
+
+  const [dir] = positionals;
+  if (!dir || positionals.length > 1) throw new UsageError("Expected exactly one folder to extract");
+  if (!values.out) throw new UsageError("--out is required");
+  if (!OUTPUT_FORMATS.includes(path.extname(values.out).toLowerCase())) {
+    throw new UsageError(`--out must end in ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  const expectedYear = financialYearSchema.optional().safeParse(values.fy);
+  if (!expectedYear.success) throw new UsageError(`--fy: ${fromZodError(expectedYear.error).message}`);
+  const pathTemplate = pathTemplateSchema.optional().safeParse(values["path-template"]);
+  if (!pathTemplate.success) throw new UsageError(`--path-template: ${fromZodError(pathTemplate.error).message}`);
+  const maxFailures = parseThreshold(values["max-failures"]!);
+  const fields = await loadProfileFields(values.profile);
+
+  const root = path.resolve(dir);
+  if (!(await fs.stat(root).catch(() => null))?.isDirectory()) throw new UsageError(`${dir} is not a folder`);
+  const { pdfs, skipped } = await findPdfFiles(root);
+  if (pdfs.length === 0) throw new UsageError(`No PDF files found under ${dir}`);
+
+  const taxRules = await storage.getTaxRuleSets();
+  const results: ExtractionResult[] = [];
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < pdfs.length) {
+      const { fileName, employeePath, read } = pdfs[next++];
+      const pathFields = resolvePathFields(employeePath, pathTemplate.data, values.company);
+      const documentFields = fields ?? await resolveProfileFields(pathFields.company);
+      const passwords = await resolvePasswords(employeePath, pathFields, fileName);
+      const documents = await extractPdfData(Buffer.from(await read()), fileName, employeePath, documentFields, passwords, pathFields);
+      for (const document of documents) {
+        results.push({
+          fileName,
+          ...document,
+          yearValidation: validateYears(document, expectedYear.data),
+          taxRecomputation: recomputeTax(document, taxRules),
+        });
+      }
+      console.error(`[${++done}/${pdfs.length}] ${employeePath}/${fileName}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, pdfs.length) }, worker));
+
+  // Workers finish out of order; report in folder order
+  const order = new Map(pdfs.map((pdf, index) => [pdf.path, index]));
+  results.sort((a, b) => order.get(`${a.employeePath}/${a.fileName}`)! - order.get(`${b.employeePath}/${b.fileName}`)!);
+
+  const form16s = results.filter((result) => !isUnclassified(result));
+  const failures = form16s.map(toFailure).filter((failed): failed is FailedExtraction => failed !== null);
+  const extracted = form16s.filter((result) => !isDecryptionFailure(result));
+  const unclassified = results.filter(isUnclassified);
+
+  await writeReport(values.out, extracted.map(resultRow), extracted, "Form 16 Data");
+  const failedOut = failedReportPath(values.out);
+  await writeReport(failedOut, failures.map(failureRow), failures, "Failed Extractions");
+
+  const threshold = maxFailures(form16s.length);
+  skipped.forEach((entry) => console.error(`Skipped ${entry.path}: ${entry.reason}`));
+  console.log(
+    `${pdfs.length} file(s): ${extracted.length} document(s) extracted, ${failures.length} failed, ` +
+    `${unclassified.length} not Form 16, ${skipped.length} archive entries skipped`,
+  );
+  console.log(`Results: ${values.out}`);
+  console.log(`Failed extractions: ${failedOut}`);
+
+  if (failures.length > threshold) {
+    console.error(`${failures.length} failed extraction(s) exceed the allowed ${values["max-failures"]}`);
+    return 1;
+  }
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    if (command === "extract") return await extract(args);
+    if (command === undefined || command === "help" || command === "--help") {
+      console.log(USAGE);
+      return command === undefined ? 2 : 0;
+    }
+    throw new UsageError(`Unknown command "${command}"`);
+  } catch (error) {
+    // parseArgs reports unknown or malformed options with a TypeError carrying a code
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,42 @@
+// Per-company settings applied to every extraction on the server: /api/extract, the
+// watched inbox and the CLI look up profiles and password templates the same way.
+
+import { storage } from "./storage";
+import { DEFAULT_PROFILE, type FieldDefinition } from "@shared/extractionProfiles";
+import { derivePasswords } from "@shared/passwords";
+import type { PathFields } from "@shared/pathTemplates";
+
+// Explicit profile first, then the company folder's assigned profile, then the default
+export async function resolveProfileFields(companyName: string, profileId?: number): Promise<FieldDefinition[]> {
+  if (profileId) {
+    const profile = await storage.getExtractionProfile(profileId);
+    if (profile) return profile.fields;
+  }
+
+  const assignment = (await storage.getCompanyProfiles()).find(
+    (entry) => entry.companyName === companyName,
+  );
+  if (assignment) {
+    const profile = await storage.getExtractionProfile(assignment.profileId);
+    if (profile) return profile.fields;
+  }
+
+  return DEFAULT_PROFILE.fields;
+}
+
+// Passwords typed by the user first, then those derived from the company's templates
+export async function resolvePasswords(
+  employeePath: string,
+  pathFields: PathFields,
+  fileName: string,
+  explicit?: string,
+): Promise<string[]> {
+  const companyName = pathFields.company;
+  const entry = (await storage.getPasswordTemplates()).find(
+    (templates) => templates.companyName === companyName,
+  );
+  const derived = entry
+    ? derivePasswords(entry.templates, await storage.getEmployees(companyName), employeePath, fileName, pathFields)
+    : [];
+  return explicit ? [explicit, ...derived] : derived;
+}
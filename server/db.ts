@@ -0,0 +1,15 @@
+// Postgres connection for PgStorage, used when DATABASE_URL is set. The serverless
+// driver talks to the database over WebSockets, which Node needs the ws package for.
+
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDatabase(connectionString: string) {
+  return drizzle({ client: new Pool({ connectionString }), schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import { createRequire } from "module";
+import path from "path";
+import { getDocument, type PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { createWorker } from "tesseract.js";
+import {
+  extractForm16Documents,
+  fallbackForm16Fields,
+  needsOcr,
+  toPdfData,
+  PDF_DECRYPT_ERROR,
+  PDF_READ_ERROR,
+  type PdfData,
+  type TextSource,
+} from "@shared/form16";
+import { isPasswordError } from "@shared/passwords";
+import type { FieldDefinition } from "@shared/extractionProfiles";
+import { layoutFromTextItems, type PageLayout, type PdfTextItem } from "@shared/layout";
+import { resolvePathFields, type PathFields } from "@shared/pathTemplates";
+
+export interface PdfPages {
+  texts: string[];
+  layouts: PageLayout[];
+  sources: TextSource[];
+}
+
+const require = createRequire(import.meta.url);
+
+// The server parses with the same pdfjs-dist version the browser bundles (its Node
+// build), so both sides see identical text items for the shared rules.
+const pdfjsDir = path.dirname(require.resolve("pdfjs-dist/package.json"));
+const PDF_DOCUMENT_OPTIONS = {
+  cMapUrl: path.join(pdfjsDir, "cmaps") + path.sep,
+  cMapPacked: true,
+  standardFontDataUrl: path.join(pdfjsDir, "standard_fonts") + path.sep,
+  iccUrl: path.join(pdfjsDir, "iccs") + path.sep,
+  wasmUrl: path.join(pdfjsDir, "wasm") + path.sep,
+};
+
+// What the PDFs of one archive taken in by the server (an upload or an inbox file) may
+// inflate to, so a ZIP bomb is turned away
+export const MAX_INFLATED_SIZE = 1024 * 1024 * 1024;
+
+// Scanned pages are recognised as in the browser (client/src/services/ocrService.ts):
+// rendered at twice the PDF size, with the English data installed in node_modules
+const OCR_RENDER_SCALE = 2;
+const OCR_LANG_PATH = path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int");
+
+// pdf.js renders in Node on a @napi-rs/canvas made by the document's canvas factory
+interface NodeCanvasFactory {
+  create(width: number, height: number): { canvas: { toBuffer(mime: "image/png"): Buffer }; context: unknown };
+}
+
+async function recognizePages(pdf: PDFDocumentProxy, pageNumbers: number[]): Promise<Map<number, string>> {
+  const worker = await createWorker("eng", 1, { langPath: OCR_LANG_PATH, gzip: true, cacheMethod: "none" });
+  const canvasFactory = pdf.canvasFactory as NodeCanvasFactory;
+
+  const texts = new Map<number, string>();
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const { canvas, context } = canvasFactory.create(viewport.width, viewport.height);
+      await page.render({ canvasContext: context as CanvasRenderingContext2D, viewport }).promise;
+      const { data } = await worker.recognize(canvas.toBuffer("image/png"));
+      texts.set(pageNumber, data.text.replace(/\s+/g, " ").trim());
+    }
+  } finally {
+    await worker.terminate();
+  }
+  return texts;
+}
+
+async function readPdfPages(data: Uint8Array, password?: string): Promise<PdfPages> {
+  const pdf = await getDocument({ ...PDF_DOCUMENT_OPTIONS, data, password }).promise;
+  const texts: string[] = [];
+  const layouts: PageLayout[] = [];
+
+  try {
+    // All pages are read since Part B usually continues past the first page
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const items = (await (await pdf.getPage(pageNumber)).getTextContent()).items as PdfTextItem[];
+      // Join text items with spaces, matching how the browser builds text from pdf.js,
+      // so the shared patterns see identical input on both sides.
+      texts.push(items.map((item) => item.str).join(" "));
+      layouts.push(layoutFromTextItems(items));
+    }
+
+    // Scanned pages have no text layer; they are recognised before the extraction rules run
+    const sources: TextSource[] = texts.map((text) => (needsOcr(text) ? "ocr" : "pdf-text"));
+    const scannedPages = texts.map((_, index) => index + 1).filter((pageNumber) => sources[pageNumber - 1] === "ocr");
+    if (scannedPages.length > 0) {
+      const ocrTexts = await recognizePages(pdf, scannedPages);
+      scannedPages.forEach((pageNumber) => {
+        texts[pageNumber - 1] = ocrTexts.get(pageNumber) || "";
+        layouts[pageNumber - 1] = [];
+      });
+    }
+    return { texts, layouts, sources };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Encrypted PDFs are retried with each candidate password; the last password error is
+// rethrown when none of them opens the file.
+export async function extractPdfPages(buffer: Buffer, passwords: string[] = []): Promise<PdfPages> {
+  const attempts = [undefined, ...passwords];
+  let lastError: unknown;
+
+  for (const password of attempts) {
+    try {
+      // pdf.js takes ownership of the array it parses, so every attempt gets its own copy
+      return await readPdfPages(new Uint8Array(buffer), password);
+    } catch (error) {
+      if (!isPasswordError(error)) throw error;
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+// One entry per employee document found in the PDF; pathFields is the employee path read
+// with the upload's path template
+export async function extractPdfData(
+  buffer: Buffer,
+  fileName: string,
+  employeePath: string,
+  fields?: FieldDefinition[],
+  passwords: string[] = [],
+  pathFields: PathFields = resolvePathFields(employeePath),
+): Promise<PdfData[]> {
+  let documents;
+  try {
+    const { texts, layouts, sources } = await extractPdfPages(buffer, passwords);
+    documents = extractForm16Documents(texts, fileName, fields, sources, layouts);
+  } catch (error) {
+    console.error(`Error parsing PDF ${fileName}:`, error);
+    documents = [fallbackForm16Fields(fileName, isPasswordError(error) ? PDF_DECRYPT_ERROR : PDF_READ_ERROR)];
+  }
+
+  const contentHash = createHash("sha256").update(buffer).digest("hex");
+  return documents.map((extracted) => ({ ...toPdfData(extracted, employeePath, pathFields), contentHash }));
+}
@@ -0,0 +1,52 @@
+// Helpers shared by the API routes. Express 4 does not see promises, so async handlers
+// are wrapped to pass a rejection on to apiErrorHandler instead of leaving it unhandled,
+// which would stop the server.
+
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from "express";
+import { MulterError } from "multer";
+import { z } from "zod";
+
+const idSchema = z.coerce.number().int().positive();
+
+// A numeric id from the URL, or undefined when the segment is not one
+export function parseId(value: string): number | undefined {
+  const parsed = idSchema.safeParse(value);
+  return parsed.success ? parsed.data : undefined;
+}
+
+export function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+// Postgres reports violated constraints (unique, foreign key, not null, check) with
+// SQLSTATE codes of class 23
+function isConstraintViolation(error: unknown): boolean {
+  const code = (error as { code?: unknown; cause?: { code?: unknown } } | null)?.code
+    ?? (error as { cause?: { code?: unknown } } | null)?.cause?.code;
+  return typeof code === "string" && code.startsWith("23");
+}
+
+export const apiErrorHandler: ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent) return next(error);
+
+  // Errors raised for the request itself, such as a body too large, keep their status
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === "number" && status >= 400 && status < 500) {
+    return res.status(status).json({ error: (error as Error).message });
+  }
+
+  // Multer reports a file too large, too many files or an unexpected field with a code
+  if (error instanceof MulterError) {
+    const tooLarge = error.code !== "LIMIT_UNEXPECTED_FILE";
+    return res.status(tooLarge ? 413 : 400).json({ error: error.message });
+  }
+
+  if (isConstraintViolation(error)) {
+    const detail = (error as { detail?: string }).detail;
+    return res.status(409).json({ error: detail || "The change conflicts with data already saved" });
+  }
+  console.error("API error:", error);
+  res.status(500).json({ error: "Internal server error" });
+};
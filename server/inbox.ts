@@ -0,0 +1,336 @@
+// Watched inbox for hands-off ingestion: HR drops Company/Employee/*.pdf (or ZIP archives
+// of them) into a folder, usually on a shared drive, and the server extracts each new
+// file with the same pipeline as /api/extract, then moves it to `done/` or `failed/`
+// under the inbox keeping its path. Each scan's files are saved as a batch, with the
+// documents and failures the upload page would have made of them.
+//
+// The folder is polled rather than watched with fs.watch, which misses changes on
+// network shares, and a file is only picked up once its size and modification time have
+// held still between two scans, so files still being copied are left alone.
+//
+//   INBOX_DIR             folder to watch; the inbox is off when unset
+//   INBOX_POLL_INTERVAL   milliseconds between scans (default 10000)
+//   INBOX_PATH_TEMPLATE   folder layout, as chosen per upload in the browser
+//   INBOX_FY              expected financial year of the documents
+
+import type { Express } from "express";
+import { promises as fs } from "fs";
+import path from "path";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { extractPdfData, MAX_INFLATED_SIZE } from "./extraction";
+import { resolvePasswords, resolveProfileFields } from "./companySettings";
+import { asyncHandler } from "./http";
+import { documentRecord, EMPTY_BATCH_REVIEW } from "@shared/batches";
+import { batchListQuerySchema, documentListQuerySchema, MAX_PAGE_SIZE } from "@shared/batchQueries";
+import { isDecryptionFailure, isUnclassified, PDF_DECRYPT_ERROR, PDF_READ_ERROR, type PdfData } from "@shared/form16";
+import { isInboxBatchRunning, type InboxBatch, type InboxFile, type InboxStatus } from "@shared/inbox";
+import { pathTemplateSchema, resolvePathFields } from "@shared/pathTemplates";
+import { financialYearSchema } from "@shared/yearValidation";
+import {
+  isPdfFileName,
+  isZipFileName,
+  listArchivePdfs,
+  type ArchiveContents,
+  type SkippedEntry,
+} from "@shared/zipArchive";
+
+const DONE_FOLDER = "done";
+const FAILED_FOLDER = "failed";
+const DEFAULT_POLL_INTERVAL = 10_000;
+
+// Batches the status lists; older ones stay saved, under /api/batches?source=inbox
+const MAX_BATCHES = 20;
+
+// Files of a batch the server stopped in the middle of; they are still in the inbox and
+// go into the next batch
+const INTERRUPTED = "The server stopped before the file was extracted";
+
+interface InboxConfig {
+  directory: string;
+  pollInterval: number;
+  pathTemplate?: string;
+  financialYear?: string;
+}
+
+// The documents found in one PDF, with the PDF they are saved with
+interface InboxPdf {
+  fileName: string;
+  content: Uint8Array;
+  documents: PdfData[];
+}
+
+// What one inbox file held: its PDFs, and the archive entries that could not be read
+interface InboxExtraction {
+  pdfs: InboxPdf[];
+  skipped: SkippedEntry[];
+}
+
+function readInboxConfig(env: NodeJS.ProcessEnv): InboxConfig | null {
+  if (!env.INBOX_DIR) return null;
+
+  const pollInterval = Number(env.INBOX_POLL_INTERVAL || DEFAULT_POLL_INTERVAL);
+  if (!Number.isInteger(pollInterval) || pollInterval <= 0) {
+    throw new Error(`INBOX_POLL_INTERVAL must be a number of milliseconds, got "${env.INBOX_POLL_INTERVAL}"`);
+  }
+  const pathTemplate = pathTemplateSchema.optional().safeParse(env.INBOX_PATH_TEMPLATE || undefined);
+  if (!pathTemplate.success) throw new Error(`INBOX_PATH_TEMPLATE: ${fromZodError(pathTemplate.error).message}`);
+  const financialYear = financialYearSchema.optional().safeParse(env.INBOX_FY || undefined);
+  if (!financialYear.success) throw new Error(`INBOX_FY: ${fromZodError(financialYear.error).message}`);
+
+  return {
+    directory: path.resolve(env.INBOX_DIR),
+    pollInterval,
+    pathTemplate: pathTemplate.data,
+    financialYear: financialYear.data,
+  };
+}
+
+// PDFs and ZIPs waiting in the inbox, by path relative to it, with a stamp that changes
+// while a file is still being written
+async function listWaitingFiles(directory: string): Promise<Map<string, string>> {
+  const waiting = new Map<string, string>();
+
+  const walk = async (relative: string) => {
+    const entries = await fs.readdir(path.join(directory, relative), { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!relative && (entry.name === DONE_FOLDER || entry.name === FAILED_FOLDER)) continue;
+        await walk(entryPath);
+      } else if (entry.isFile() && (isPdfFileName(entry.name) || isZipFileName(entry.name))) {
+        const stats = await fs.stat(path.join(directory, entryPath));
+        waiting.set(entryPath, `${stats.size}:${stats.mtimeMs}`);
+      }
+    }
+  };
+  await walk("");
+  return waiting;
+}
+
+// Why a file belongs in failed/: the same failures the upload page lists, plus files with
+// no Form 16 in them
+function failureReason(results: PdfData[]): string | undefined {
+  for (const result of results) {
+    if (result.pdfread === PDF_READ_ERROR) return PDF_READ_ERROR;
+    if (isDecryptionFailure(result)) return PDF_DECRYPT_ERROR;
+    if (!isUnclassified(result) && result.panValidation.status === "invalid") {
+      return `Invalid PAN for ${result.employeeName}: ${result.panValidation.reasons.join("; ")}`;
+    }
+  }
+  return results.every(isUnclassified) ? "No Form 16 found" : undefined;
+}
+
+async function extractInboxFile(config: InboxConfig, relativePath: string): Promise<InboxExtraction> {
+  const data = await fs.readFile(path.join(config.directory, relativePath));
+  const { pdfs, skipped }: ArchiveContents = isZipFileName(relativePath)
+    ? await listArchivePdfs(new Blob([data]), relativePath, MAX_INFLATED_SIZE)
+    : {
+      pdfs: [{
+        path: relativePath,
+        fileName: path.posix.basename(relativePath),
+        employeePath: path.posix.dirname(relativePath),
+        read: async () => new Uint8Array(data),
+      }],
+      skipped: [],
+    };
+
+  const extracted: InboxPdf[] = [];
+  for (const { path: pdfPath, fileName, employeePath, read } of pdfs) {
+    const pathFields = resolvePathFields(employeePath, config.pathTemplate);
+    let content: Uint8Array;
+    try {
+      content = await read();
+    } catch (error) {
+      // An archive entry that does not inflate as its archive declared
+      skipped.push({ path: pdfPath, reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    const documents = await extractPdfData(
+      Buffer.from(content),
+      fileName,
+      employeePath,
+      await resolveProfileFields(pathFields.company),
+      await resolvePasswords(employeePath, pathFields, fileName),
+      pathFields,
+    );
+    extracted.push({ fileName, content, documents });
+  }
+  return { pdfs: extracted, skipped };
+}
+
+// Archive entries left out are kept with the batch, as /api/extract reports them
+async function saveSkipped(config: InboxConfig, batchId: number, entry: SkippedEntry) {
+  const employeePath = path.posix.dirname(entry.path);
+  await storage.addFailure(batchId, {
+    reason: "skipped",
+    details: entry.reason,
+    fileName: path.posix.basename(entry.path),
+    employeePath,
+    companyName: resolvePathFields(employeePath, config.pathTemplate).company,
+  });
+}
+
+// Saved as the upload page saves them: Form 16s as documents of the batch, anything else
+// as a failure. Returns whether a document was added.
+async function saveExtracted(batchId: number, pdf: InboxPdf, data: PdfData, position: number): Promise<boolean> {
+  const { fileName } = pdf;
+  const { employeePath, employeeName, companyName, pdfread: extractedText } = data;
+  const fileContent = Buffer.from(pdf.content).toString("base64");
+
+  if (isUnclassified(data)) {
+    await storage.addFailure(batchId, { reason: "unclassified", fileName, employeePath, companyName, extractedText });
+  } else if (isDecryptionFailure(data)) {
+    await storage.addFailure(batchId, {
+      reason: "decrypt",
+      details: PDF_DECRYPT_ERROR,
+      fileName,
+      employeePath,
+      employeeName,
+      companyName,
+      extractedText,
+    });
+  } else if (data.panValidation.status === "invalid") {
+    // Waits in the batch's failed list until a reviewer corrects the PAN
+    await storage.addFailure(batchId, {
+      reason: "pan",
+      details: data.panValidation.reasons.join("; "),
+      fileName,
+      employeePath,
+      employeeName,
+      companyName,
+      extractedText,
+      data,
+      fileContent,
+    });
+  } else {
+    const { document, fields } = documentRecord(data, position, fileName, fileContent);
+    await storage.addDocument(batchId, document, fields);
+    return true;
+  }
+  return false;
+}
+
+// The newest inbox batches with the documents found so far
+async function listInboxBatches(): Promise<InboxBatch[]> {
+  const { items } = await storage.getBatches(batchListQuerySchema.parse({ source: "inbox", sort: "createdAt", limit: MAX_BATCHES }));
+  return Promise.all(items.map(async (batch) => ({
+    ...batch,
+    inbox: batch.inbox ?? { files: [] },
+    documents: (await storage.getDocuments(documentListQuerySchema.parse({ batchId: batch.id, limit: MAX_PAGE_SIZE }))).items,
+  })));
+}
+
+// Batches a restart cut short are closed, so they no longer show as extracting
+async function closeInterruptedBatches() {
+  const { items } = await storage.getBatches(batchListQuerySchema.parse({ source: "inbox", limit: MAX_PAGE_SIZE }));
+  for (const { id, inbox } of items) {
+    if (!inbox || !isInboxBatchRunning(inbox)) continue;
+    const files = inbox.files.map((file): InboxFile =>
+      file.status === "queued" || file.status === "extracting" ? { ...file, status: "failed", reason: INTERRUPTED } : file,
+    );
+    await storage.updateBatch(id, { inbox: { files, finishedAt: new Date().toISOString() } });
+  }
+}
+
+// A file dropped again under the same name does not replace the one moved earlier
+async function moveInboxFile(directory: string, folder: string, relativePath: string) {
+  let target = path.join(directory, folder, relativePath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  if (await fs.stat(target).catch(() => null)) {
+    const extension = path.extname(target);
+    target = `${target.slice(0, -extension.length)} (${Date.now()})${extension}`;
+  }
+  await fs.rename(path.join(directory, relativePath), target);
+}
+
+export function registerInbox(app: Express) {
+  const config = readInboxConfig(process.env);
+
+  app.get('/api/inbox', asyncHandler(async (_req, res) => {
+    const status: InboxStatus = {
+      enabled: config !== null,
+      directory: config?.directory,
+      batches: config ? await listInboxBatches() : [],
+    };
+    res.json(status);
+  }));
+
+  if (!config) return;
+
+  let lastSeen = new Map<string, string>();
+  // Files that could not be moved out are not extracted again until they change
+  const stuck = new Map<string, string>();
+
+  // Files are extracted one at a time so the inbox never competes with the web UI for long
+  const runBatch = async (paths: string[], stamps: Map<string, string>) => {
+    const files: InboxFile[] = paths.map((relativePath) => ({ path: relativePath, status: "queued" }));
+    const batch = await storage.createBatch({
+      name: `Inbox ${new Date().toISOString().slice(0, 16).replace("T", " ")}`,
+      review: { ...EMPTY_BATCH_REVIEW, expectedFinancialYear: config.financialYear ?? "" },
+      inbox: { files },
+    });
+    const saveProgress = (finishedAt?: string) => storage.updateBatch(batch.id, { inbox: { files, finishedAt } });
+    console.log(`Inbox batch ${batch.id}: ${files.length} new file(s)`);
+
+    let position = 0;
+    for (const file of files) {
+      file.status = "extracting";
+      await saveProgress();
+      let reason: string | undefined;
+      try {
+        if (!file.path.includes("/")) throw new Error("Files must be inside a company folder");
+        const { pdfs, skipped } = await extractInboxFile(config, file.path);
+        for (const pdf of pdfs) {
+          for (const data of pdf.documents) {
+            if (await saveExtracted(batch.id, pdf, data, position)) position++;
+          }
+        }
+        for (const entry of skipped) await saveSkipped(config, batch.id, entry);
+        reason = pdfs.length === 0
+          ? `Nothing in the archive could be read (${skipped.length} entr${skipped.length === 1 ? "y" : "ies"} skipped)`
+          : failureReason(pdfs.flatMap((pdf) => pdf.documents));
+      } catch (error) {
+        reason = error instanceof Error ? error.message : String(error);
+      }
+
+      try {
+        await moveInboxFile(config.directory, reason ? FAILED_FOLDER : DONE_FOLDER, file.path);
+        file.status = reason ? "failed" : "done";
+        file.reason = reason;
+      } catch (error) {
+        stuck.set(file.path, stamps.get(file.path)!);
+        file.status = "failed";
+        file.reason = `Could not move the file out of the inbox: ${error instanceof Error ? error.message : error}`;
+      }
+    }
+    await saveProgress(new Date().toISOString());
+  };
+
+  const scan = async () => {
+    const waiting = await listWaitingFiles(config.directory);
+    const ready = Array.from(waiting.keys()).filter((relativePath) => {
+      const stamp = waiting.get(relativePath);
+      return lastSeen.get(relativePath) === stamp && stuck.get(relativePath) !== stamp;
+    });
+    lastSeen = waiting;
+    if (ready.length > 0) {
+      ready.sort((a, b) => a.localeCompare(b));
+      await runBatch(ready, waiting);
+      // A copy dropped later under the same name must settle again before it is picked up
+      ready.forEach((relativePath) => lastSeen.delete(relativePath));
+    }
+  };
+
+  // The next scan is scheduled once the previous one finished, so batches never overlap
+  const poll = () => {
+    scan()
+      .catch((error) => console.error("Inbox scan failed:", error))
+      .finally(() => setTimeout(poll, config.pollInterval).unref());
+  };
+
+  console.log(`Watching inbox ${config.directory} every ${config.pollInterval}ms`);
+  closeInterruptedBatches()
+    .catch((error) => console.error("Could not close interrupted inbox batches:", error))
+    .finally(poll);
+}
@@ -0,0 +1,25 @@
+import express, { type Express } from "express";
+import { createRequire } from "module";
+import path from "path";
+
+// tesseract.js fetches its worker script, WebAssembly core and language data from a
+// CDN unless told otherwise. Serving the copies installed in node_modules keeps OCR
+// working on machines without internet access.
+export const OCR_ASSETS_PATH = "/ocr";
+
+const require = createRequire(import.meta.url);
+
+const packageDir = (name: string, from = require) =>
+  path.dirname(from.resolve(`${name}/package.json`));
+
+export function registerOcrAssets(app: Express) {
+  const tesseractDir = packageDir("tesseract.js");
+  // The core is a dependency of tesseract.js, so resolve it from there
+  const coreDir = packageDir("tesseract.js-core", createRequire(path.join(tesseractDir, "package.json")));
+  const langDir = path.join(packageDir("@tesseract.js-data/eng"), "4.0.0_best_int");
+
+  const options = { immutable: true, maxAge: "30d" };
+  app.use(`${OCR_ASSETS_PATH}/worker`, express.static(path.join(tesseractDir, "dist"), options));
+  app.use(`${OCR_ASSETS_PATH}/core`, express.static(coreDir, options));
+  app.use(`${OCR_ASSETS_PATH}/lang`, express.static(langDir, options));
+}
@@ -0,0 +1,19 @@
+import express, { type Express } from "express";
+import { createRequire } from "module";
+import path from "path";
+
+// pdf.js fetches CMaps for CJK text, the standard fonts a PDF may reference without
+// embedding, ICC profiles and its image decoders at runtime. They are served from the
+// installed pdfjs-dist so the version always matches the bundled library.
+export const PDF_ASSETS_PATH = "/pdfjs";
+
+const require = createRequire(import.meta.url);
+
+export function registerPdfAssets(app: Express) {
+  const pdfjsDir = path.dirname(require.resolve("pdfjs-dist/package.json"));
+
+  const options = { immutable: true, maxAge: "30d" };
+  for (const folder of ["cmaps", "standard_fonts", "iccs", "wasm"]) {
+    app.use(`${PDF_ASSETS_PATH}/${folder}`, express.static(path.join(pdfjsDir, folder), options));
+  }
+}
@@ -1,8 +1,93 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { extractPdfData, MAX_INFLATED_SIZE } from "./extraction";
+import { resolvePasswords, resolveProfileFields } from "./companySettings";
+import { registerBatches } from "./batches";
+import { apiErrorHandler, asyncHandler, parseId } from "./http";
+import { registerInbox } from "./inbox";
+import { registerOcrAssets } from "./ocrAssets";
+import { registerPdfAssets } from "./pdfAssets";
+import { z } from "zod";
+import {
+  insertCompanyPasswordTemplatesSchema,
+  insertCompanyProfileSchema,
+  insertEmployeeSchema,
+  insertExtractionProfileSchema,
+  insertTaxRuleSetSchema,
+} from "@shared/schema";
+import { isDecryptionFailure, isUnclassified } from "@shared/form16";
+import { pathTemplateSchema, resolvePathFields } from "@shared/pathTemplates";
+import { findDuplicateGroups } from "@shared/duplicates";
+import { isPdfFileName, isZipFileName, listArchivePdfs, type SkippedEntry } from "@shared/zipArchive";
+import { recomputeTax } from "@shared/taxEngine";
+import { countFinancialYears, financialYearSchema, mixesFinancialYears, validateYears } from "@shared/yearValidation";
+
+// ZIP bundles from HR or TRACES hold many Form 16s, so uploads may be larger than one PDF
+const MAX_UPLOAD_SIZE = 100 * 1024 * 1024;
+
+// Uploads are held in memory until extracted, so one request may only bring so many;
+// larger batches come as ZIPs
+const MAX_UPLOAD_FILES = 20;
+
+// Files extracted at once; entries are only inflated as a worker picks them up
+const EXTRACT_CONCURRENCY = 4;
+
+const pdfUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: MAX_UPLOAD_FILES },
+  fileFilter: (_req, file, cb) => {
+    cb(null, file.mimetype === 'application/pdf' || isPdfFileName(file.originalname) || isZipFileName(file.originalname));
+  }
+});
+
+interface UploadedPdf {
+  fileName: string;
+  employeePath: string;
+  password?: string;
+  read: () => Promise<Uint8Array>;
+}
+
+// ZIP uploads are replaced by the PDFs inside them, found from the folder the archive
+// was dropped from; entries that are not PDFs are reported back as skipped
+async function expandUploads(
+  files: Express.Multer.File[],
+  paths: string[],
+  passwords: string[]
+): Promise<{ pdfs: UploadedPdf[]; skipped: SkippedEntry[] }> {
+  const pdfs: UploadedPdf[] = [];
+  const skipped: SkippedEntry[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const employeePath = paths[index] ?? paths[0] ?? '';
+    const password = passwords[index] ?? passwords[0];
+
+    if (!isZipFileName(file.originalname)) {
+      pdfs.push({ fileName: file.originalname, employeePath, password, read: async () => file.buffer });
+      continue;
+    }
+
+    const archivePath = employeePath ? `${employeePath}/${file.originalname}` : file.originalname;
+    try {
+      const contents = await listArchivePdfs(new Blob([file.buffer]), archivePath, MAX_INFLATED_SIZE);
+      pdfs.push(...contents.pdfs.map((pdf) => ({ ...pdf, password })));
+      skipped.push(...contents.skipped);
+    } catch (error) {
+      skipped.push({ path: archivePath, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { pdfs, skipped };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  registerOcrAssets(app);
+  registerPdfAssets(app);
+  registerInbox(app);
+  registerBatches(app);
+
   // DSC Certificate detection endpoint with HYP 2003 specific handling
   app.get('/api/dsc/certificates', (req, res) => {
     try {
@@ -117,6 +202,224 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Form 16 extraction - accepts one or more PDFs as multipart "files".
+  // "employeePath" may be sent once for all files or once per file, in file order.
+  // "profileId" overrides the extraction profile assigned to the company folder.
+  // "password" opens encrypted PDFs (once for all files or per file); the company's
+  // password templates are tried as well.
+  // "pathTemplate" reads company, FY, employee code, name and PAN from the employee path
+  // (e.g. "{company}/{fy}/{employee}"); "companyName" is used for files sent without a
+  // path and by templates without {company}.
+  // "financialYear" is the year the batch should cover; every result carries its year
+  // checks and tax recomputation, and batches spanning several financial years are reported.
+  app.post('/api/extract', pdfUpload.array('files'), asyncHandler(async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'No PDF or ZIP files uploaded' });
+    }
+
+    const paths: string[] = [].concat(req.body.employeePath ?? []);
+    const passwords: string[] = [].concat(req.body.password ?? []);
+    const profileId = req.body.profileId ? parseId(req.body.profileId) : undefined;
+    if (req.body.profileId && profileId === undefined) {
+      return res.status(400).json({ error: 'Invalid profileId' });
+    }
+    const expectedYear = financialYearSchema.optional().safeParse(req.body.financialYear || undefined);
+    if (!expectedYear.success) {
+      return res.status(400).json({ error: fromZodError(expectedYear.error).message });
+    }
+    const pathTemplate = pathTemplateSchema.optional().safeParse(req.body.pathTemplate || undefined);
+    if (!pathTemplate.success) {
+      return res.status(400).json({ error: fromZodError(pathTemplate.error).message });
+    }
+    // Company for PDFs uploaded without a folder, and for templates without {company}
+    const companyName: string | undefined = req.body.companyName || undefined;
+
+    try {
+      const taxRules = await storage.getTaxRuleSets();
+      const { pdfs, skipped } = await expandUploads(files, paths.map((path) => path || companyName || ''), passwords);
+      const extract = async ({ fileName, employeePath, password, read }: UploadedPdf) => {
+        const pathFields = resolvePathFields(employeePath, pathTemplate.data, companyName);
+        const fields = await resolveProfileFields(pathFields.company, profileId);
+        const candidates = await resolvePasswords(employeePath, pathFields, fileName, password);
+        let bytes: Uint8Array;
+        try {
+          bytes = await read();
+        } catch (error) {
+          // An archive entry that does not inflate as its archive declared
+          skipped.push({ path: `${employeePath}/${fileName}`, reason: error instanceof Error ? error.message : String(error) });
+          return [];
+        }
+        const documents = await extractPdfData(Buffer.from(bytes), fileName, employeePath, fields, candidates, pathFields);
+        return documents.map((document) => ({
+          fileName,
+          ...document,
+          yearValidation: validateYears(document, expectedYear.data),
+          taxRecomputation: recomputeTax(document, taxRules)
+        }));
+      };
+
+      // Results are kept in upload order whichever worker finishes first
+      const extracted: Awaited<ReturnType<typeof extract>>[] = [];
+      let next = 0;
+      const worker = async () => {
+        while (next < pdfs.length) {
+          const index = next++;
+          extracted[index] = await extract(pdfs[index]);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(EXTRACT_CONCURRENCY, pdfs.length) }, worker));
+      const results = extracted.flat();
+
+      // Documents that are not Form 16 related or could not be decrypted are reported separately
+      const form16s = results.filter((result) => !isUnclassified(result) && !isDecryptionFailure(result));
+      res.json({
+        results: form16s,
+        financialYears: Object.fromEntries(countFinancialYears(form16s)),
+        mixedFinancialYears: mixesFinancialYears(form16s),
+        // Positions in results of the same file or the same (PAN, FY, TAN) issued more than once
+        duplicates: findDuplicateGroups(form16s),
+        unclassified: results.filter(isUnclassified),
+        decryptFailed: results.filter(isDecryptionFailure),
+        // ZIP entries that were not extracted, such as non-PDF files
+        skipped
+      });
+    } catch (error) {
+      console.error('Extraction error:', error);
+      res.status(500).json({ error: 'PDF extraction failed' });
+    }
+  }));
+
+  // Extraction profiles
+  app.get('/api/profiles', asyncHandler(async (_req, res) => {
+    res.json(await storage.getExtractionProfiles());
+  }));
+
+  app.get('/api/profiles/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const profile = await storage.getExtractionProfile(id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+    res.json(profile);
+  }));
+
+  app.post('/api/profiles', asyncHandler(async (req, res) => {
+    const parsed = insertExtractionProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    res.status(201).json(await storage.createExtractionProfile(parsed.data));
+  }));
+
+  app.put('/api/profiles/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const parsed = insertExtractionProfileSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    const profile = await storage.updateExtractionProfile(id, parsed.data);
+    if (!profile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+    res.json(profile);
+  }));
+
+  app.delete('/api/profiles/:id', asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (id === undefined) {
+      return res.status(400).json({ error: 'Invalid id' });
+    }
+    const deleted = await storage.deleteExtractionProfile(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Profile not found or built-in' });
+    }
+    res.status(204).end();
+  }));
+
+  // Company folder -> extraction profile assignments
+  app.get('/api/company-profiles', asyncHandler(async (_req, res) => {
+    res.json(await storage.getCompanyProfiles());
+  }));
+
+  app.put('/api/company-profiles', asyncHandler(async (req, res) => {
+    const parsed = insertCompanyProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    if (!(await storage.getExtractionProfile(parsed.data.profileId))) {
+      return res.status(400).json({ error: 'Unknown extraction profile' });
+    }
+    res.json(await storage.setCompanyProfile(parsed.data));
+  }));
+
+  app.delete('/api/company-profiles/:companyName', asyncHandler(async (req, res) => {
+    await storage.deleteCompanyProfile(req.params.companyName);
+    res.status(204).end();
+  }));
+
+  // Password templates per company folder, e.g. "{pan_lower}{dob_ddmmyyyy}"
+  app.get('/api/company-passwords', asyncHandler(async (_req, res) => {
+    res.json(await storage.getPasswordTemplates());
+  }));
+
+  app.put('/api/company-passwords', asyncHandler(async (req, res) => {
+    const parsed = insertCompanyPasswordTemplatesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    res.json(await storage.setPasswordTemplates(parsed.data));
+  }));
+
+  app.delete('/api/company-passwords/:companyName', asyncHandler(async (req, res) => {
+    await storage.deletePasswordTemplates(req.params.companyName);
+    res.status(204).end();
+  }));
+
+  // Employee master (name, PAN, date of birth) used by the password templates
+  app.get('/api/employees', asyncHandler(async (req, res) => {
+    const companyName = typeof req.query.companyName === 'string' ? req.query.companyName : undefined;
+    res.json(await storage.getEmployees(companyName));
+  }));
+
+  app.put('/api/employees/:companyName', asyncHandler(async (req, res) => {
+    const parsed = z.array(insertEmployeeSchema).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    res.json(await storage.replaceEmployees(req.params.companyName, parsed.data));
+  }));
+
+  // Tax rule sets per assessment year; a new budget is added with PUT, no code change needed
+  app.get('/api/tax-rules', asyncHandler(async (_req, res) => {
+    res.json(await storage.getTaxRuleSets());
+  }));
+
+  app.put('/api/tax-rules', asyncHandler(async (req, res) => {
+    const parsed = insertTaxRuleSetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    res.json(await storage.setTaxRuleSet(parsed.data));
+  }));
+
+  app.delete('/api/tax-rules/:assessmentYear', asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteTaxRuleSet(req.params.assessmentYear);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Tax rules not found or built-in' });
+    }
+    res.status(204).end();
+  }));
+
+  app.use('/api', apiErrorHandler);
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -1,4 +1,59 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, asc, count, countDistinct, desc, eq, getTableColumns, gt, inArray, isNotNull, isNull, lt, max, notInArray, or, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import {
+  batches,
+  companyPasswordTemplates,
+  companyProfiles,
+  documents,
+  employees,
+  extractedFields,
+  extractionProfiles,
+  failures,
+  signatures,
+  taxRuleSets,
+  uploadAttempts,
+  users,
+  type User,
+  type InsertUser,
+  type ExtractionProfile,
+  type InsertExtractionProfile,
+  type CompanyProfile,
+  type InsertCompanyProfile,
+  type CompanyPasswordTemplates,
+  type InsertCompanyPasswordTemplates,
+  type Employee,
+  type InsertEmployee,
+  type TaxRuleSetRecord,
+  type InsertTaxRuleSet,
+  type Batch,
+  type InsertBatch,
+  type InsertBatchDocument,
+  type InsertExtractedField,
+  type ExtractedField,
+  type BatchFailure,
+  type InsertBatchFailure,
+  type UploadAttempt,
+  type InsertUploadAttempt,
+  type Signature,
+  type InsertSignature,
+} from "@shared/schema";
+import type { BatchSession, BatchSummary, DocumentHistory, NewBatch, NewBatchDocument, StoredDocument } from "@shared/batches";
+import {
+  cursorValue,
+  hasDocumentFilter,
+  matchesDocumentFilter,
+  pageOf,
+  withNextCursor,
+  type BatchListQuery,
+  type Cursor,
+  type DocumentFilter,
+  type DocumentListQuery,
+  type DocumentSummary,
+  type Page,
+} from "@shared/batchQueries";
+import { BUILT_IN_PROFILES } from "@shared/extractionProfiles";
+import { BUILT_IN_TAX_RULES } from "@shared/taxRules";
+import { createDatabase, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +62,98 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getExtractionProfiles(): Promise<ExtractionProfile[]>;
+  getExtractionProfile(id: number): Promise<ExtractionProfile | undefined>;
+  createExtractionProfile(profile: InsertExtractionProfile): Promise<ExtractionProfile>;
+  updateExtractionProfile(id: number, profile: Partial<InsertExtractionProfile>): Promise<ExtractionProfile | undefined>;
+  deleteExtractionProfile(id: number): Promise<boolean>;
+
+  getCompanyProfiles(): Promise<CompanyProfile[]>;
+  setCompanyProfile(assignment: InsertCompanyProfile): Promise<CompanyProfile>;
+  deleteCompanyProfile(companyName: string): Promise<boolean>;
+
+  getPasswordTemplates(): Promise<CompanyPasswordTemplates[]>;
+  setPasswordTemplates(entry: InsertCompanyPasswordTemplates): Promise<CompanyPasswordTemplates>;
+  deletePasswordTemplates(companyName: string): Promise<boolean>;
+
+  getEmployees(companyName?: string): Promise<Employee[]>;
+  replaceEmployees(companyName: string, employees: InsertEmployee[]): Promise<Employee[]>;
+
+  getTaxRuleSets(): Promise<TaxRuleSetRecord[]>;
+  setTaxRuleSet(ruleSet: InsertTaxRuleSet): Promise<TaxRuleSetRecord>;
+  deleteTaxRuleSet(assessmentYear: string): Promise<boolean>;
+
+  // Lists are read from the cursor on, which the routes decode from the query
+  getBatches(query: BatchListQuery, cursor?: Cursor): Promise<Page<BatchSummary>>;
+  getBatchSession(id: number): Promise<BatchSession | undefined>;
+  createBatch(batch: NewBatch): Promise<Batch>;
+  updateBatch(id: number, batch: Partial<NewBatch>): Promise<Batch | undefined>;
+  deleteBatch(id: number): Promise<boolean>;
+  // The methods below return undefined when the batch, or a document named, is not found
+  addDocument(batchId: number, document: NewBatchDocument, fields: InsertExtractedField[]): Promise<StoredDocument | undefined>;
+  addFailure(batchId: number, failure: InsertBatchFailure): Promise<BatchFailure | undefined>;
+  deleteFailure(batchId: number, id: number): Promise<boolean>;
+  recordUploadAttempts(batchId: number, attempts: InsertUploadAttempt[]): Promise<UploadAttempt[] | undefined>;
+  addSignatures(batchId: number, signatures: InsertSignature[]): Promise<Signature[] | undefined>;
+
+  getDocuments(query: DocumentListQuery, cursor?: Cursor): Promise<Page<DocumentSummary>>;
+  getDocument(id: number): Promise<DocumentHistory | undefined>;
+  // New fields replace the document's extracted fields
+  updateDocument(id: number, update: Partial<InsertBatchDocument>, fields?: InsertExtractedField[]): Promise<StoredDocument | undefined>;
+  deleteDocument(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private extractionProfiles: Map<number, ExtractionProfile>;
+  private companyProfiles: Map<string, CompanyProfile>;
+  private passwordTemplates: Map<string, CompanyPasswordTemplates>;
+  private employees: Map<number, Employee>;
+  private taxRuleSets: Map<string, TaxRuleSetRecord>;
+  private batches: Map<number, Batch>;
+  private documents: Map<number, StoredDocument>;
+  private failures: Map<number, BatchFailure>;
+  private uploadAttempts: Map<number, UploadAttempt>;
+  private signatures: Map<number, Signature>;
   currentId: number;
+  currentProfileId: number;
+  currentEmployeeId: number;
+  currentBatchId: number;
+  currentDocumentId: number;
+  currentFailureId: number;
+  currentUploadAttemptId: number;
+  currentSignatureId: number;
 
   constructor() {
     this.users = new Map();
+    this.extractionProfiles = new Map();
+    this.companyProfiles = new Map();
+    this.passwordTemplates = new Map();
+    this.employees = new Map();
+    this.taxRuleSets = new Map();
+    this.batches = new Map();
+    this.documents = new Map();
+    this.failures = new Map();
+    this.uploadAttempts = new Map();
+    this.signatures = new Map();
     this.currentId = 1;
+    this.currentProfileId = 1;
+    this.currentEmployeeId = 1;
+    this.currentBatchId = 1;
+    this.currentDocumentId = 1;
+    this.currentFailureId = 1;
+    this.currentUploadAttemptId = 1;
+    this.currentSignatureId = 1;
+
+    for (const profile of BUILT_IN_PROFILES) {
+      const id = this.currentProfileId++;
+      this.extractionProfiles.set(id, { ...profile, id, builtIn: true });
+    }
+
+    for (const ruleSet of BUILT_IN_TAX_RULES) {
+      this.taxRuleSets.set(ruleSet.assessmentYear, { ...ruleSet, builtIn: true });
+    }
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +172,839 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getExtractionProfiles(): Promise<ExtractionProfile[]> {
+    return Array.from(this.extractionProfiles.values());
+  }
+
+  async getExtractionProfile(id: number): Promise<ExtractionProfile | undefined> {
+    return this.extractionProfiles.get(id);
+  }
+
+  async createExtractionProfile(insertProfile: InsertExtractionProfile): Promise<ExtractionProfile> {
+    const id = this.currentProfileId++;
+    const profile: ExtractionProfile = {
+      description: "",
+      ...insertProfile,
+      id,
+      builtIn: false,
+    };
+    this.extractionProfiles.set(id, profile);
+    return profile;
+  }
+
+  async updateExtractionProfile(
+    id: number,
+    update: Partial<InsertExtractionProfile>,
+  ): Promise<ExtractionProfile | undefined> {
+    const existing = this.extractionProfiles.get(id);
+    if (!existing) return undefined;
+
+    const profile: ExtractionProfile = { ...existing, ...update };
+    this.extractionProfiles.set(id, profile);
+    return profile;
+  }
+
+  async deleteExtractionProfile(id: number): Promise<boolean> {
+    const existing = this.extractionProfiles.get(id);
+    if (!existing || existing.builtIn) return false;
+
+    for (const [companyName, assignment] of Array.from(this.companyProfiles.entries())) {
+      if (assignment.profileId === id) this.companyProfiles.delete(companyName);
+    }
+    return this.extractionProfiles.delete(id);
+  }
+
+  async getCompanyProfiles(): Promise<CompanyProfile[]> {
+    return Array.from(this.companyProfiles.values());
+  }
+
+  async setCompanyProfile(assignment: InsertCompanyProfile): Promise<CompanyProfile> {
+    this.companyProfiles.set(assignment.companyName, assignment);
+    return assignment;
+  }
+
+  async deleteCompanyProfile(companyName: string): Promise<boolean> {
+    return this.companyProfiles.delete(companyName);
+  }
+
+  async getPasswordTemplates(): Promise<CompanyPasswordTemplates[]> {
+    return Array.from(this.passwordTemplates.values());
+  }
+
+  async setPasswordTemplates(entry: InsertCompanyPasswordTemplates): Promise<CompanyPasswordTemplates> {
+    this.passwordTemplates.set(entry.companyName, entry);
+    return entry;
+  }
+
+  async deletePasswordTemplates(companyName: string): Promise<boolean> {
+    return this.passwordTemplates.delete(companyName);
+  }
+
+  async getEmployees(companyName?: string): Promise<Employee[]> {
+    return Array.from(this.employees.values()).filter(
+      (employee) => companyName === undefined || employee.companyName === companyName,
+    );
+  }
+
+  // An employee master import replaces the company's previous list
+  async replaceEmployees(companyName: string, rows: InsertEmployee[]): Promise<Employee[]> {
+    for (const [id, employee] of Array.from(this.employees.entries())) {
+      if (employee.companyName === companyName) this.employees.delete(id);
+    }
+
+    return rows.map((row) => {
+      const id = this.currentEmployeeId++;
+      const employee: Employee = { ...row, id, companyName };
+      this.employees.set(id, employee);
+      return employee;
+    });
+  }
+
+  async getTaxRuleSets(): Promise<TaxRuleSetRecord[]> {
+    return Array.from(this.taxRuleSets.values()).sort((a, b) => a.assessmentYear.localeCompare(b.assessmentYear));
+  }
+
+  // A new budget adds a year; saving over a built-in year replaces its rules
+  async setTaxRuleSet(ruleSet: InsertTaxRuleSet): Promise<TaxRuleSetRecord> {
+    const record: TaxRuleSetRecord = { ...ruleSet, builtIn: false };
+    this.taxRuleSets.set(ruleSet.assessmentYear, record);
+    return record;
+  }
+
+  async deleteTaxRuleSet(assessmentYear: string): Promise<boolean> {
+    const existing = this.taxRuleSets.get(assessmentYear);
+    if (!existing || existing.builtIn) return false;
+    return this.taxRuleSets.delete(assessmentYear);
+  }
+
+  async getBatches(query: BatchListQuery, cursor?: Cursor): Promise<Page<BatchSummary>> {
+    const documents = Array.from(this.documents.values());
+    const failures = Array.from(this.failures.values());
+    const signedIds = this.signedDocumentIds();
+
+    const summaries = Array.from(this.batches.values())
+      .map((batch) => {
+        const batchDocuments = documents.filter((document) => document.batchId === batch.id);
+        return {
+          summary: {
+            ...batch,
+            documentCount: batchDocuments.length,
+            failureCount: failures.filter((failure) => failure.batchId === batch.id).length,
+            signedCount: batchDocuments.filter((document) => signedIds.has(document.id)).length,
+          },
+          matches: (query.source === undefined || (batch.inbox !== null) === (query.source === "inbox"))
+            && (!hasDocumentFilter(query)
+              || batchDocuments.some((document) => matchesDocumentFilter(document, signedIds.has(document.id), query))),
+        };
+      })
+      .filter((entry) => entry.matches)
+      .map((entry) => entry.summary);
+    return pageOf(summaries, (batch) => cursorValue(query.sort, batch[query.sort]), query, cursor);
+  }
+
+  async getBatchSession(id: number): Promise<BatchSession | undefined> {
+    const batch = this.batches.get(id);
+    if (!batch) return undefined;
+
+    const documents = Array.from(this.documents.values())
+      .filter((document) => document.batchId === id)
+      .sort((a, b) => a.position - b.position);
+    const documentIds = new Set(documents.map((document) => document.id));
+    return {
+      batch,
+      documents,
+      failures: Array.from(this.failures.values()).filter((failure) => failure.batchId === id),
+      signatures: Array.from(this.signatures.values()).filter((signature) => documentIds.has(signature.documentId)),
+    };
+  }
+
+  async createBatch(insertBatch: NewBatch): Promise<Batch> {
+    const id = this.currentBatchId++;
+    const now = new Date().toISOString();
+    const batch: Batch = { ...insertBatch, inbox: insertBatch.inbox ?? null, id, createdAt: now, updatedAt: now };
+    this.batches.set(id, batch);
+    return batch;
+  }
+
+  async updateBatch(id: number, update: Partial<NewBatch>): Promise<Batch | undefined> {
+    const existing = this.batches.get(id);
+    if (!existing) return undefined;
+
+    const batch: Batch = { ...existing, ...update, updatedAt: new Date().toISOString() };
+    this.batches.set(id, batch);
+    return batch;
+  }
+
+  // A batch takes its documents, failures, upload attempts and signatures with it
+  async deleteBatch(id: number): Promise<boolean> {
+    if (!this.batches.delete(id)) return false;
+
+    for (const [documentId, document] of Array.from(this.documents.entries())) {
+      if (document.batchId !== id) continue;
+      this.documents.delete(documentId);
+      for (const [attemptId, attempt] of Array.from(this.uploadAttempts.entries())) {
+        if (attempt.documentId === documentId) this.uploadAttempts.delete(attemptId);
+      }
+      for (const [signatureId, signature] of Array.from(this.signatures.entries())) {
+        if (signature.documentId === documentId) this.signatures.delete(signatureId);
+      }
+    }
+    for (const [failureId, failure] of Array.from(this.failures.entries())) {
+      if (failure.batchId === id) this.failures.delete(failureId);
+    }
+    return true;
+  }
+
+  async addDocument(
+    batchId: number,
+    insertDocument: NewBatchDocument,
+    fields: InsertExtractedField[],
+  ): Promise<StoredDocument | undefined> {
+    if (!this.batches.has(batchId)) return undefined;
+
+    const positions = Array.from(this.documents.values())
+      .filter((document) => document.batchId === batchId)
+      .map((document) => document.position);
+    const id = this.currentDocumentId++;
+    const document: StoredDocument = {
+      uploadStatus: "pending",
+      uploadId: null,
+      contentHash: null,
+      ...insertDocument,
+      position: insertDocument.position ?? Math.max(-1, ...positions) + 1,
+      id,
+      batchId,
+      createdAt: new Date().toISOString(),
+      fields: this.fieldRows(id, fields),
+    };
+    this.documents.set(id, document);
+    this.touchBatch(batchId);
+    return document;
+  }
+
+  async addFailure(batchId: number, insertFailure: InsertBatchFailure): Promise<BatchFailure | undefined> {
+    if (!this.batches.has(batchId)) return undefined;
+
+    const id = this.currentFailureId++;
+    const failure: BatchFailure = {
+      details: "",
+      employeeName: "",
+      extractedText: "",
+      ...insertFailure,
+      data: insertFailure.data ?? null,
+      fileContent: insertFailure.fileContent ?? null,
+      id,
+      batchId,
+      createdAt: new Date().toISOString(),
+    };
+    this.failures.set(id, failure);
+    this.touchBatch(batchId);
+    return failure;
+  }
+
+  async deleteFailure(batchId: number, id: number): Promise<boolean> {
+    if (this.failures.get(id)?.batchId !== batchId) return false;
+    this.touchBatch(batchId);
+    return this.failures.delete(id);
+  }
+
+  // Each attempt also becomes the upload status of its document
+  async recordUploadAttempts(batchId: number, attempts: InsertUploadAttempt[]): Promise<UploadAttempt[] | undefined> {
+    if (!this.holdsDocuments(batchId, attempts.map((attempt) => attempt.documentId))) return undefined;
+
+    const attemptedAt = new Date().toISOString();
+    const recorded = attempts.map((attempt) => {
+      const id = this.currentUploadAttemptId++;
+      const record: UploadAttempt = { message: "", ...attempt, uploadId: attempt.uploadId ?? null, id, attemptedAt };
+      this.uploadAttempts.set(id, record);
+
+      const document = this.documents.get(attempt.documentId)!;
+      this.documents.set(document.id, {
+        ...document,
+        uploadStatus: attempt.status,
+        uploadId: attempt.status === "success" ? record.uploadId : document.uploadId,
+      });
+      return record;
+    });
+    this.touchBatch(batchId);
+    return recorded;
+  }
+
+  async addSignatures(batchId: number, insertSignatures: InsertSignature[]): Promise<Signature[] | undefined> {
+    if (!this.holdsDocuments(batchId, insertSignatures.map((signature) => signature.documentId))) return undefined;
+
+    const recorded = insertSignatures.map((insertSignature) => {
+      const id = this.currentSignatureId++;
+      const signature: Signature = { reason: "", location: "", ...insertSignature, id };
+      this.signatures.set(id, signature);
+      return signature;
+    });
+    this.touchBatch(batchId);
+    return recorded;
+  }
+
+  async getDocuments(query: DocumentListQuery, cursor?: Cursor): Promise<Page<DocumentSummary>> {
+    const signedIds = this.signedDocumentIds();
+    const summaries = Array.from(this.documents.values())
+      .filter((document) => query.batchId === undefined || document.batchId === query.batchId)
+      .filter((document) => matchesDocumentFilter(document, signedIds.has(document.id), query))
+      .map(({ fileContent: _fileContent, fields: _fields, ...document }) => ({ ...document, signed: signedIds.has(document.id) }));
+    return pageOf(summaries, (document) => cursorValue(query.sort, document[query.sort]), query, cursor);
+  }
+
+  async getDocument(id: number): Promise<DocumentHistory | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+
+    return {
+      ...document,
+      uploadAttempts: Array.from(this.uploadAttempts.values()).filter((attempt) => attempt.documentId === id),
+      signatures: Array.from(this.signatures.values()).filter((signature) => signature.documentId === id),
+    };
+  }
+
+  async updateDocument(
+    id: number,
+    update: Partial<InsertBatchDocument>,
+    fields?: InsertExtractedField[],
+  ): Promise<StoredDocument | undefined> {
+    const existing = this.documents.get(id);
+    if (!existing) return undefined;
+
+    const document: StoredDocument = {
+      ...existing,
+      ...update,
+      fields: fields ? this.fieldRows(id, fields) : existing.fields,
+    };
+    this.documents.set(id, document);
+    this.touchBatch(document.batchId);
+    return document;
+  }
+
+  // Duplicate resolutions point at documents by their place in the batch, which shifts
+  // once a document is gone, so the batch's resolutions are cleared
+  async deleteDocument(id: number): Promise<boolean> {
+    const existing = this.documents.get(id);
+    if (!existing) return false;
+
+    this.documents.delete(id);
+    for (const [attemptId, attempt] of Array.from(this.uploadAttempts.entries())) {
+      if (attempt.documentId === id) this.uploadAttempts.delete(attemptId);
+    }
+    for (const [signatureId, signature] of Array.from(this.signatures.entries())) {
+      if (signature.documentId === id) this.signatures.delete(signatureId);
+    }
+    const batch = this.batches.get(existing.batchId);
+    if (batch) {
+      this.batches.set(batch.id, {
+        ...batch,
+        review: { ...batch.review, duplicateResolutions: {} },
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    return true;
+  }
+
+  private fieldRows(documentId: number, fields: InsertExtractedField[]): ExtractedField[] {
+    return fields.map((field) => ({
+      ...field,
+      documentId,
+      page: field.page ?? null,
+      boundingBox: field.boundingBox ?? null,
+      rule: field.rule ?? null,
+    }));
+  }
+
+  private signedDocumentIds(): Set<number> {
+    return new Set(Array.from(this.signatures.values()).map((signature) => signature.documentId));
+  }
+
+  private holdsDocuments(batchId: number, documentIds: number[]): boolean {
+    return this.batches.has(batchId) && documentIds.every((id) => this.documents.get(id)?.batchId === batchId);
+  }
+
+  private touchBatch(id: number) {
+    const batch = this.batches.get(id);
+    if (batch) this.batches.set(id, { ...batch, updatedAt: new Date().toISOString() });
+  }
+}
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+const documentSortColumns = {
+  createdAt: documents.createdAt,
+  companyName: documents.companyName,
+  employeeName: documents.employeeName,
+  employeePAN: documents.employeePAN,
+  financialYear: documents.financialYear,
+  assessmentYear: documents.assessmentYear,
+};
+
+const batchSortColumns = {
+  updatedAt: batches.updatedAt,
+  createdAt: batches.createdAt,
+  name: batches.name,
+};
+
+// Text is compared by code point ("C" collation) rather than the database's locale, to
+// page in the same order as MemStorage (see pageOf)
+const sortKey = (column: PgColumn): SQL =>
+  column.columnType === "PgText" ? sql`${column} collate "C"` : sql`${column}`;
+
+// Ids break ties in the sort, so the cursor always points at one place in the list
+const sortOrder = (column: PgColumn, id: PgColumn, order: "asc" | "desc") =>
+  order === "asc" ? [asc(sortKey(column)), asc(id)] : [desc(sortKey(column)), desc(id)];
+
+const afterCursor = (column: PgColumn, id: PgColumn, cursor: Cursor, order: "asc" | "desc") => {
+  const after = order === "asc" ? gt : lt;
+  return or(after(sortKey(column), cursor.value), and(eq(column, cursor.value), after(id, cursor.id)));
+};
+
+// Storage in Postgres, so profiles, settings and batch sessions survive a restart. The
+// built-in profiles and tax rules are added on first start; edits made to them since are
+// kept.
+export class PgStorage implements IStorage {
+  private ready: Promise<void>;
+
+  constructor(private db: Database) {
+    this.ready = this.seed();
+    this.ready.catch((error) => console.error("Could not add the built-in profiles and tax rules:", error));
+  }
+
+  private async seed() {
+    await this.db
+      .insert(extractionProfiles)
+      .values(BUILT_IN_PROFILES.map((profile) => ({ ...profile, builtIn: true })))
+      .onConflictDoNothing({ target: extractionProfiles.name });
+    await this.db
+      .insert(taxRuleSets)
+      .values(BUILT_IN_TAX_RULES.map((ruleSet) => ({ ...ruleSet, builtIn: true })))
+      .onConflictDoNothing({ target: taxRuleSets.assessmentYear });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getExtractionProfiles(): Promise<ExtractionProfile[]> {
+    await this.ready;
+    return this.db.select().from(extractionProfiles).orderBy(asc(extractionProfiles.id));
+  }
+
+  async getExtractionProfile(id: number): Promise<ExtractionProfile | undefined> {
+    await this.ready;
+    const [profile] = await this.db.select().from(extractionProfiles).where(eq(extractionProfiles.id, id));
+    return profile;
+  }
+
+  async createExtractionProfile(insertProfile: InsertExtractionProfile): Promise<ExtractionProfile> {
+    const [profile] = await this.db.insert(extractionProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateExtractionProfile(
+    id: number,
+    update: Partial<InsertExtractionProfile>,
+  ): Promise<ExtractionProfile | undefined> {
+    if (Object.keys(update).length === 0) return this.getExtractionProfile(id);
+    const [profile] = await this.db
+      .update(extractionProfiles)
+      .set(update)
+      .where(eq(extractionProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteExtractionProfile(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(extractionProfiles).where(eq(extractionProfiles.id, id));
+      if (!existing || existing.builtIn) return false;
+
+      await tx.delete(companyProfiles).where(eq(companyProfiles.profileId, id));
+      await tx.delete(extractionProfiles).where(eq(extractionProfiles.id, id));
+      return true;
+    });
+  }
+
+  async getCompanyProfiles(): Promise<CompanyProfile[]> {
+    return this.db.select().from(companyProfiles);
+  }
+
+  async setCompanyProfile(assignment: InsertCompanyProfile): Promise<CompanyProfile> {
+    const [saved] = await this.db
+      .insert(companyProfiles)
+      .values(assignment)
+      .onConflictDoUpdate({ target: companyProfiles.companyName, set: { profileId: assignment.profileId } })
+      .returning();
+    return saved;
+  }
+
+  async deleteCompanyProfile(companyName: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(companyProfiles)
+      .where(eq(companyProfiles.companyName, companyName))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getPasswordTemplates(): Promise<CompanyPasswordTemplates[]> {
+    return this.db.select().from(companyPasswordTemplates);
+  }
+
+  async setPasswordTemplates(entry: InsertCompanyPasswordTemplates): Promise<CompanyPasswordTemplates> {
+    const [saved] = await this.db
+      .insert(companyPasswordTemplates)
+      .values(entry)
+      .onConflictDoUpdate({ target: companyPasswordTemplates.companyName, set: { templates: entry.templates } })
+      .returning();
+    return saved;
+  }
+
+  async deletePasswordTemplates(companyName: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(companyPasswordTemplates)
+      .where(eq(companyPasswordTemplates.companyName, companyName))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getEmployees(companyName?: string): Promise<Employee[]> {
+    return this.db
+      .select()
+      .from(employees)
+      .where(companyName === undefined ? undefined : eq(employees.companyName, companyName))
+      .orderBy(asc(employees.id));
+  }
+
+  async replaceEmployees(companyName: string, rows: InsertEmployee[]): Promise<Employee[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(employees).where(eq(employees.companyName, companyName));
+      if (rows.length === 0) return [];
+      return tx.insert(employees).values(rows.map((row) => ({ ...row, companyName }))).returning();
+    });
+  }
+
+  async getTaxRuleSets(): Promise<TaxRuleSetRecord[]> {
+    await this.ready;
+    return this.db.select().from(taxRuleSets).orderBy(asc(taxRuleSets.assessmentYear));
+  }
+
+  async setTaxRuleSet(ruleSet: InsertTaxRuleSet): Promise<TaxRuleSetRecord> {
+    const record = { ...ruleSet, builtIn: false };
+    const [saved] = await this.db
+      .insert(taxRuleSets)
+      .values(record)
+      .onConflictDoUpdate({ target: taxRuleSets.assessmentYear, set: record })
+      .returning();
+    return saved;
+  }
+
+  async deleteTaxRuleSet(assessmentYear: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(taxRuleSets)
+      .where(and(eq(taxRuleSets.assessmentYear, assessmentYear), eq(taxRuleSets.builtIn, false)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getBatches(query: BatchListQuery, cursor?: Cursor): Promise<Page<BatchSummary>> {
+    const column = batchSortColumns[query.sort];
+    const conditions: (SQL | undefined)[] = [];
+    if (hasDocumentFilter(query)) {
+      conditions.push(inArray(
+        batches.id,
+        this.db.select({ id: documents.batchId }).from(documents).where(and(...this.documentConditions(query))),
+      ));
+    }
+    if (query.source) conditions.push(query.source === "inbox" ? isNotNull(batches.inbox) : isNull(batches.inbox));
+    if (cursor) conditions.push(afterCursor(column, batches.id, cursor, query.order));
+
+    const rows = await this.db
+      .select()
+      .from(batches)
+      .where(and(...conditions))
+      .orderBy(...sortOrder(column, batches.id, query.order))
+      .limit(query.limit + 1);
+    if (rows.length === 0) return { items: [], nextCursor: null };
+
+    const batchIds = rows.map((batch) => batch.id);
+    const documentCounts = await this.db
+      .select({ batchId: documents.batchId, count: count() })
+      .from(documents)
+      .where(inArray(documents.batchId, batchIds))
+      .groupBy(documents.batchId);
+    const failureCounts = await this.db
+      .select({ batchId: failures.batchId, count: count() })
+      .from(failures)
+      .where(inArray(failures.batchId, batchIds))
+      .groupBy(failures.batchId);
+    const signedCounts = await this.db
+      .select({ batchId: documents.batchId, count: countDistinct(signatures.documentId) })
+      .from(signatures)
+      .innerJoin(documents, eq(documents.id, signatures.documentId))
+      .where(inArray(documents.batchId, batchIds))
+      .groupBy(documents.batchId);
+
+    const countOf = (counts: { batchId: number; count: number }[], batchId: number) =>
+      counts.find((entry) => entry.batchId === batchId)?.count ?? 0;
+    const summaries = rows.map((batch) => ({
+      ...batch,
+      documentCount: countOf(documentCounts, batch.id),
+      failureCount: countOf(failureCounts, batch.id),
+      signedCount: countOf(signedCounts, batch.id),
+    }));
+    return withNextCursor(summaries, (batch) => cursorValue(query.sort, batch[query.sort]), query.limit);
+  }
+
+  async getBatchSession(id: number): Promise<BatchSession | undefined> {
+    const [batch] = await this.db.select().from(batches).where(eq(batches.id, id));
+    if (!batch) return undefined;
+
+    const batchDocuments = await this.db
+      .select()
+      .from(documents)
+      .where(eq(documents.batchId, id))
+      .orderBy(asc(documents.position));
+    const documentIds = batchDocuments.map((document) => document.id);
+    const fields = documentIds.length > 0
+      ? await this.db.select().from(extractedFields).where(inArray(extractedFields.documentId, documentIds))
+      : [];
+    const batchSignatures = documentIds.length > 0
+      ? await this.db
+        .select()
+        .from(signatures)
+        .where(inArray(signatures.documentId, documentIds))
+        .orderBy(asc(signatures.id))
+      : [];
+
+    return {
+      batch,
+      documents: batchDocuments.map((document) => ({
+        ...document,
+        fields: fields.filter((field) => field.documentId === document.id),
+      })),
+      failures: await this.db.select().from(failures).where(eq(failures.batchId, id)).orderBy(asc(failures.id)),
+      signatures: batchSignatures,
+    };
+  }
+
+  async createBatch(insertBatch: NewBatch): Promise<Batch> {
+    const [batch] = await this.db.insert(batches).values(insertBatch).returning();
+    return batch;
+  }
+
+  async updateBatch(id: number, update: Partial<NewBatch>): Promise<Batch | undefined> {
+    const [batch] = await this.db
+      .update(batches)
+      .set({ ...update, updatedAt: sql`now()` })
+      .where(eq(batches.id, id))
+      .returning();
+    return batch;
+  }
+
+  async deleteBatch(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(batches).where(eq(batches.id, id)).returning({ id: batches.id });
+    return deleted.length > 0;
+  }
+
+  async addDocument(
+    batchId: number,
+    insertDocument: NewBatchDocument,
+    fields: InsertExtractedField[],
+  ): Promise<StoredDocument | undefined> {
+    return this.db.transaction(async (tx) => {
+      const touched = await tx.update(batches).set({ updatedAt: sql`now()` }).where(eq(batches.id, batchId)).returning();
+      if (touched.length === 0) return undefined;
+
+      let position = insertDocument.position;
+      if (position === undefined) {
+        const [last] = await tx.select({ position: max(documents.position) }).from(documents).where(eq(documents.batchId, batchId));
+        position = (last?.position ?? -1) + 1;
+      }
+      const [document] = await tx.insert(documents).values({ ...insertDocument, position, batchId }).returning();
+      const rows = fields.length > 0
+        ? await tx.insert(extractedFields).values(fields.map((field) => ({ ...field, documentId: document.id }))).returning()
+        : [];
+      return { ...document, fields: rows };
+    });
+  }
+
+  async addFailure(batchId: number, insertFailure: InsertBatchFailure): Promise<BatchFailure | undefined> {
+    return this.db.transaction(async (tx) => {
+      const touched = await tx.update(batches).set({ updatedAt: sql`now()` }).where(eq(batches.id, batchId)).returning();
+      if (touched.length === 0) return undefined;
+
+      const [failure] = await tx.insert(failures).values({ ...insertFailure, batchId }).returning();
+      return failure;
+    });
+  }
+
+  async deleteFailure(batchId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(failures)
+        .where(and(eq(failures.id, id), eq(failures.batchId, batchId)))
+        .returning({ id: failures.id });
+      if (deleted.length === 0) return false;
+
+      await tx.update(batches).set({ updatedAt: sql`now()` }).where(eq(batches.id, batchId));
+      return true;
+    });
+  }
+
+  async recordUploadAttempts(batchId: number, attempts: InsertUploadAttempt[]): Promise<UploadAttempt[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (!(await this.holdsDocuments(tx, batchId, attempts.map((attempt) => attempt.documentId)))) return undefined;
+      if (attempts.length === 0) return [];
+
+      const recorded = await tx.insert(uploadAttempts).values(attempts).returning();
+      for (const attempt of recorded) {
+        await tx
+          .update(documents)
+          .set({ uploadStatus: attempt.status, uploadId: attempt.status === "success" ? attempt.uploadId : undefined })
+          .where(eq(documents.id, attempt.documentId));
+      }
+      return recorded;
+    });
+  }
+
+  async addSignatures(batchId: number, insertSignatures: InsertSignature[]): Promise<Signature[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (!(await this.holdsDocuments(tx, batchId, insertSignatures.map((signature) => signature.documentId)))) return undefined;
+      if (insertSignatures.length === 0) return [];
+      return tx.insert(signatures).values(insertSignatures).returning();
+    });
+  }
+
+  async getDocuments(query: DocumentListQuery, cursor?: Cursor): Promise<Page<DocumentSummary>> {
+    const column = documentSortColumns[query.sort];
+    const conditions: (SQL | undefined)[] = this.documentConditions(query);
+    if (query.batchId !== undefined) conditions.push(eq(documents.batchId, query.batchId));
+    if (cursor) conditions.push(afterCursor(column, documents.id, cursor, query.order));
+
+    const { fileContent: _fileContent, ...summaryColumns } = getTableColumns(documents);
+    const rows = await this.db
+      .select(summaryColumns)
+      .from(documents)
+      .where(and(...conditions))
+      .orderBy(...sortOrder(column, documents.id, query.order))
+      .limit(query.limit + 1);
+    if (rows.length === 0) return { items: [], nextCursor: null };
+
+    const signed = await this.db
+      .selectDistinct({ id: signatures.documentId })
+      .from(signatures)
+      .where(inArray(signatures.documentId, rows.map((row) => row.id)));
+    const signedIds = new Set(signed.map((row) => row.id));
+    return withNextCursor(
+      rows.map((row) => ({ ...row, signed: signedIds.has(row.id) })),
+      (document) => cursorValue(query.sort, document[query.sort]),
+      query.limit,
+    );
+  }
+
+  async getDocument(id: number): Promise<DocumentHistory | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    if (!document) return undefined;
+
+    return {
+      ...document,
+      fields: await this.db.select().from(extractedFields).where(eq(extractedFields.documentId, id)),
+      uploadAttempts: await this.db
+        .select()
+        .from(uploadAttempts)
+        .where(eq(uploadAttempts.documentId, id))
+        .orderBy(asc(uploadAttempts.id)),
+      signatures: await this.db.select().from(signatures).where(eq(signatures.documentId, id)).orderBy(asc(signatures.id)),
+    };
+  }
+
+  async updateDocument(
+    id: number,
+    update: Partial<InsertBatchDocument>,
+    fields?: InsertExtractedField[],
+  ): Promise<StoredDocument | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [document] = Object.keys(update).length > 0
+        ? await tx.update(documents).set(update).where(eq(documents.id, id)).returning()
+        : await tx.select().from(documents).where(eq(documents.id, id));
+      if (!document) return undefined;
+
+      if (fields) {
+        await tx.delete(extractedFields).where(eq(extractedFields.documentId, id));
+        if (fields.length > 0) {
+          await tx.insert(extractedFields).values(fields.map((field) => ({ ...field, documentId: id })));
+        }
+      }
+      await tx.update(batches).set({ updatedAt: sql`now()` }).where(eq(batches.id, document.batchId));
+      return {
+        ...document,
+        fields: await tx.select().from(extractedFields).where(eq(extractedFields.documentId, id)),
+      };
+    });
+  }
+
+  // Duplicate resolutions point at documents by their place in the batch, which shifts
+  // once a document is gone, so the batch's resolutions are cleared
+  async deleteDocument(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(documents).where(eq(documents.id, id)).returning({ batchId: documents.batchId });
+      if (!deleted) return false;
+
+      const [batch] = await tx.select().from(batches).where(eq(batches.id, deleted.batchId));
+      await tx
+        .update(batches)
+        .set({ review: { ...batch.review, duplicateResolutions: {} }, updatedAt: sql`now()` })
+        .where(eq(batches.id, deleted.batchId));
+      return true;
+    });
+  }
+
+  // Conditions on documents for a list filter; the signature status is looked up without
+  // referring back to the outer query, so the conditions also work inside subqueries
+  private documentConditions(filter: DocumentFilter): SQL[] {
+    const signedIds = this.db.select({ id: signatures.documentId }).from(signatures);
+    const conditions: SQL[] = [];
+    if (filter.company !== undefined) conditions.push(eq(documents.companyName, filter.company));
+    if (filter.financialYear !== undefined) conditions.push(eq(documents.financialYear, filter.financialYear));
+    if (filter.assessmentYear !== undefined) conditions.push(eq(documents.assessmentYear, filter.assessmentYear));
+    if (filter.pan !== undefined) conditions.push(eq(documents.employeePAN, filter.pan));
+    if (filter.validationStatus !== undefined) conditions.push(eq(documents.panStatus, filter.validationStatus));
+    if (filter.uploadStatus !== undefined) conditions.push(eq(documents.uploadStatus, filter.uploadStatus));
+    if (filter.signatureStatus === "signed") conditions.push(inArray(documents.id, signedIds));
+    if (filter.signatureStatus === "unsigned") conditions.push(notInArray(documents.id, signedIds));
+    return conditions;
+  }
+
+  // Touches the batch when it exists and holds every one of the documents
+  private async holdsDocuments(tx: Transaction, batchId: number, documentIds: number[]): Promise<boolean> {
+    const touched = await tx.update(batches).set({ updatedAt: sql`now()` }).where(eq(batches.id, batchId)).returning();
+    if (touched.length === 0) return false;
+    if (documentIds.length === 0) return true;
+
+    const ids = Array.from(new Set(documentIds));
+    const found = await tx
+      .select({ id: documents.id })
+      .from(documents)
+      .where(and(eq(documents.batchId, batchId), inArray(documents.id, ids)));
+    return found.length === ids.length;
+  }
 }
 
-export const storage = new MemStorage();
+// Settings and batches are kept in Postgres when a database is configured, otherwise in
+// memory until the server stops
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new PgStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,17 @@
+// Form 16 amounts are printed with Indian digit grouping (1,23,456.00),
+// sometimes with a currency prefix or a trailing "Rs."
+
+export const AMOUNT_PATTERN = "(?:Rs\\.?\\s*)?(-?\\d[\\d,]*(?:\\.\\d{1,2})?)";
+
+export function parseIndianAmount(value: string | undefined | null): number {
+  if (!value) return 0;
+  const amount = Number(value.replace(/Rs\.?|INR|₹|[,\s]/gi, ""));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+export function formatIndianAmount(amount: number): string {
+  return amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
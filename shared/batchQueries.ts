@@ -0,0 +1,153 @@
+// Query strings of the /api/documents and /api/batches list endpoints. Lists are sorted
+// on one field with the id breaking ties, and paged with an opaque cursor holding the
+// sort value and id of the last item returned, so pages stay stable while documents are
+// added.
+
+import { z } from "zod";
+import type { BatchDocument } from "./schema";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Documents in list responses leave out the PDF, which /api/documents/:id returns
+export interface DocumentSummary extends Omit<BatchDocument, "fileContent"> {
+  signed: boolean;
+}
+
+export const documentFilterSchema = z.object({
+  company: z.string().min(1).optional(),
+  financialYear: z.string().min(1).optional(),
+  assessmentYear: z.string().min(1).optional(),
+  pan: z.string().min(1).transform((pan) => pan.toUpperCase()).optional(),
+  validationStatus: z.enum(["valid", "suspicious", "invalid"]).optional(), // of the PAN
+  uploadStatus: z.enum(["pending", "uploading", "success", "error"]).optional(),
+  signatureStatus: z.enum(["signed", "unsigned"]).optional(),
+});
+
+export type DocumentFilter = z.infer<typeof documentFilterSchema>;
+
+const pageSchema = z.object({
+  order: z.enum(["asc", "desc"]).default("asc"),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).optional(),
+});
+
+export const documentSorts = ["createdAt", "companyName", "employeeName", "employeePAN", "financialYear", "assessmentYear"] as const;
+export type DocumentSort = typeof documentSorts[number];
+
+export const documentListQuerySchema = documentFilterSchema.merge(pageSchema).extend({
+  batchId: z.coerce.number().int().optional(),
+  sort: z.enum(documentSorts).default("createdAt"),
+});
+
+export type DocumentListQuery = z.infer<typeof documentListQuerySchema>;
+
+export const batchSorts = ["updatedAt", "createdAt", "name"] as const;
+export type BatchSort = typeof batchSorts[number];
+
+// A batch is listed when at least one of its documents matches the filter
+export const batchListQuerySchema = documentFilterSchema.merge(pageSchema).extend({
+  source: z.enum(["upload", "inbox"]).optional(), // the upload page or the watched inbox
+  sort: z.enum(batchSorts).default("updatedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type BatchListQuery = z.infer<typeof batchListQuerySchema>;
+
+export interface Cursor {
+  value: string;
+  id: number;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify([cursor.value, cursor.id])).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Sorts on a timestamp, whose cursor values are ISO dates whatever form the storage returns
+const timestampSorts: readonly string[] = ["createdAt", "updatedAt"] satisfies (DocumentSort | BatchSort)[];
+
+const isoTimestampSchema = z.string().datetime();
+
+export function cursorValue(sort: DocumentSort | BatchSort, value: string): string {
+  return timestampSorts.includes(sort) ? new Date(value).toISOString() : value;
+}
+
+// The cursor, or undefined when it is not one handed out for a list with this sort
+export function decodeCursor(encoded: string, sort: DocumentSort | BatchSort): Cursor | undefined {
+  try {
+    const [value, id] = JSON.parse(atob(encoded.replace(/-/g, "+").replace(/_/g, "/")));
+    if (typeof value !== "string" || !Number.isInteger(id) || id <= 0) return undefined;
+    if (timestampSorts.includes(sort) && !isoTimestampSchema.safeParse(value).success) return undefined;
+    return { value, id };
+  } catch {
+    return undefined;
+  }
+}
+
+// Orders text by Unicode code point, as PgStorage does with the "C" collation on UTF-8. The
+// `<` operator compares UTF-16 code units, which puts characters past U+FFFF before U+E000-U+FFFF.
+function compareText(a: string, b: string): number {
+  const [pointsA, pointsB] = [Array.from(a), Array.from(b)];
+  for (let index = 0; index < Math.min(pointsA.length, pointsB.length); index++) {
+    const difference = pointsA[index].codePointAt(0)! - pointsB[index].codePointAt(0)!;
+    if (difference !== 0) return difference;
+  }
+  return pointsA.length - pointsB.length;
+}
+
+// Whether a row comes after the cursor in the list's order
+export function isAfterCursor(value: string, id: number, cursor: Cursor, order: "asc" | "desc"): boolean {
+  const direction = order === "asc" ? 1 : -1;
+  if (value !== cursor.value) return compareText(value, cursor.value) * direction > 0;
+  return (id - cursor.id) * direction > 0;
+}
+
+// Sorts rows on a field, then by id in the same direction, and cuts out the page after the
+// cursor.
+export function pageOf<T extends { id: number }>(
+  rows: T[],
+  sortValue: (row: T) => string,
+  query: { order: "asc" | "desc"; limit: number },
+  cursor?: Cursor,
+): Page<T> {
+  const direction = query.order === "asc" ? 1 : -1;
+  const sorted = rows
+    .filter((row) => !cursor || isAfterCursor(sortValue(row), row.id, cursor, query.order))
+    .sort((a, b) => {
+      const [valueA, valueB] = [sortValue(a), sortValue(b)];
+      return (valueA === valueB ? a.id - b.id : compareText(valueA, valueB)) * direction;
+    });
+  return withNextCursor(sorted.slice(0, query.limit + 1), sortValue, query.limit);
+}
+
+// Rows fetched one past the page size tell whether another page follows
+export function withNextCursor<T extends { id: number }>(rows: T[], sortValue: (row: T) => string, limit: number): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor({ value: sortValue(last), id: last.id }) : null,
+  };
+}
+
+export function matchesDocumentFilter(
+  document: Pick<BatchDocument, "companyName" | "financialYear" | "assessmentYear" | "employeePAN" | "panStatus" | "uploadStatus">,
+  signed: boolean,
+  filter: DocumentFilter,
+): boolean {
+  return (filter.company === undefined || document.companyName === filter.company)
+    && (filter.financialYear === undefined || document.financialYear === filter.financialYear)
+    && (filter.assessmentYear === undefined || document.assessmentYear === filter.assessmentYear)
+    && (filter.pan === undefined || document.employeePAN === filter.pan)
+    && (filter.validationStatus === undefined || document.panStatus === filter.validationStatus)
+    && (filter.uploadStatus === undefined || document.uploadStatus === filter.uploadStatus)
+    && (filter.signatureStatus === undefined || signed === (filter.signatureStatus === "signed"));
+}
+
+export const hasDocumentFilter = (filter: DocumentFilter) =>
+  Object.keys(documentFilterSchema.shape).some((key) => filter[key as keyof DocumentFilter] !== undefined);
@@ -0,0 +1,275 @@
+// Saved batch sessions: what the upload page holds for one batch of Form 16s, stored on
+// the server so a refresh does not lose the work and a batch can be reopened later. A
+// document's header fields and statuses are stored as columns, the provenance of each
+// header field as a row of its own and the rest of the extracted data as JSON; these
+// helpers convert between that shape and PdfData.
+
+import { z } from "zod";
+import { documentTypes } from "./documentClassifier";
+import { profileFields } from "./extractionProfiles";
+import type { FieldProvenanceMap, PdfData } from "./form16";
+import type { InboxProgress } from "./inbox";
+import { DEFAULT_TOLERANCE } from "./reconciliation";
+import type {
+  Batch,
+  BatchDocument,
+  BatchFailure,
+  ExtractedField,
+  InsertBatch,
+  InsertBatchDocument,
+  InsertExtractedField,
+  Signature,
+  UploadAttempt,
+} from "./schema";
+
+// Decisions a reviewer made on the batch as a whole
+export const batchReviewSchema = z.object({
+  expectedFinancialYear: z.string(),
+  duplicateResolutions: z.record(z.object({ chosen: z.number().int().nonnegative(), revised: z.boolean() })),
+  tolerance: z.object({ absolute: z.number().nonnegative(), percent: z.number().nonnegative() }),
+  reconciliationOverrides: z.record(z.string()), // mismatch key to reviewer
+});
+
+export type BatchReview = z.infer<typeof batchReviewSchema>;
+
+export const EMPTY_BATCH_REVIEW: BatchReview = {
+  expectedFinancialYear: "",
+  duplicateResolutions: {},
+  tolerance: DEFAULT_TOLERANCE,
+  reconciliationOverrides: {},
+};
+
+// PdfData fields stored in columns of their own
+type DocumentColumn =
+  | "date"
+  | "employeeName"
+  | "employeePAN"
+  | "financialYear"
+  | "assessmentYear"
+  | "employeePath"
+  | "companyName"
+  | "contentHash"
+  | "uploadStatus"
+  | "uploadId"
+  | "provenance"
+  | "panValidation";
+
+export type DocumentDetails = Omit<PdfData, DocumentColumn>;
+
+const fieldProvenanceSchema = z.object({
+  source: z.enum(["pdf-text", "ocr", "filename", "folder", "default", "manual"]),
+  page: z.number().int().positive().optional(),
+  boundingBox: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).optional(),
+  rule: z.string().optional(),
+  confidence: z.number().min(0).max(1),
+});
+
+// PdfData as sent by the upload page, checked so that what is stored always reads back
+// into a PdfData the review screens can work with
+export const pdfDataSchema = z.object({
+  date: z.string(),
+  employeeName: z.string(),
+  employeePAN: z.string(),
+  financialYear: z.string(),
+  assessmentYear: z.string(),
+  employeePath: z.string(),
+  companyName: z.string(),
+  pathFields: z.object({
+    company: z.string(),
+    fy: z.string().optional(),
+    empCode: z.string().optional(),
+    employee: z.string().optional(),
+    pan: z.string().optional(),
+  }),
+  pdfread: z.string(),
+  documentType: z.enum(documentTypes),
+  pageRange: z.object({ start: z.number().int().positive(), end: z.number().int().positive() }),
+  textSource: z.enum(["pdf-text", "ocr"]),
+  provenance: z.object({
+    date: fieldProvenanceSchema,
+    employeeName: fieldProvenanceSchema,
+    employeePAN: fieldProvenanceSchema,
+    financialYear: fieldProvenanceSchema,
+    assessmentYear: fieldProvenanceSchema,
+  }),
+  panValidation: z.object({ status: z.enum(["valid", "suspicious", "invalid"]), reasons: z.array(z.string()) }),
+  contentHash: z.string().optional(),
+  revised: z.boolean().optional(),
+  partA: z.object({
+    certificateNumber: z.string(),
+    deductorName: z.string(),
+    deductorAddress: z.string(),
+    deductorTAN: z.string(),
+    deductorPAN: z.string(),
+    citTds: z.string(),
+    periodFrom: z.string(),
+    periodTo: z.string(),
+    quarters: z.array(z.object({
+      quarter: z.string(),
+      receiptNumber: z.string(),
+      amountPaid: z.number(),
+      taxDeducted: z.number(),
+      taxRemitted: z.number(),
+    })),
+    totalAmountPaid: z.number(),
+    totalTaxDeducted: z.number(),
+    totalTaxRemitted: z.number(),
+  }),
+  partB: z.object({
+    taxRegime: z.enum(["old", "new", "unknown"]),
+    salary: z.number(),
+    perquisites: z.number(),
+    profitsInLieuOfSalary: z.number(),
+    grossSalary: z.number(),
+    section10Exemptions: z.number(),
+    standardDeduction: z.number(),
+    professionalTax: z.number(),
+    incomeChargeableUnderSalaries: z.number(),
+    grossTotalIncome: z.number(),
+    chapterVIA: z.array(z.object({ section: z.string(), grossAmount: z.number(), deductibleAmount: z.number() })),
+    totalChapterVIA: z.number(),
+    totalTaxableIncome: z.number(),
+    taxOnIncome: z.number(),
+    rebate87A: z.number(),
+    surcharge: z.number(),
+    cess: z.number(),
+    taxPayable: z.number(),
+    relief89: z.number(),
+    netTaxPayable: z.number(),
+  }),
+  uploadStatus: z.enum(["pending", "uploading", "success", "error"]).optional(),
+  uploadId: z.string().optional(),
+  manualCorrection: z.object({
+    correctedAt: z.string(),
+    original: z.object({
+      employeePAN: z.string(),
+      employeeName: z.string(),
+      financialYear: z.string(),
+      assessmentYear: z.string(),
+    }),
+  }).optional(),
+}) satisfies z.ZodType<PdfData>;
+
+export const documentDetailsSchema = pdfDataSchema.omit({
+  date: true,
+  employeeName: true,
+  employeePAN: true,
+  financialYear: true,
+  assessmentYear: true,
+  employeePath: true,
+  companyName: true,
+  contentHash: true,
+  uploadStatus: true,
+  uploadId: true,
+  provenance: true,
+  panValidation: true,
+}) satisfies z.ZodType<DocumentDetails>;
+
+export interface BatchSummary extends Batch {
+  documentCount: number;
+  failureCount: number;
+  signedCount: number;
+}
+
+export interface StoredDocument extends BatchDocument {
+  fields: ExtractedField[];
+}
+
+// A document with everything that happened to it since it was accepted
+export interface DocumentHistory extends StoredDocument {
+  uploadAttempts: UploadAttempt[];
+  signatures: Signature[];
+}
+
+// Batches the inbox saves also carry its progress, which clients of the API cannot set
+export type NewBatch = InsertBatch & { inbox?: InboxProgress };
+
+// A document added without a place goes to the end of its batch
+export type NewBatchDocument = Omit<InsertBatchDocument, "position"> & { position?: number };
+
+// Everything needed to put a batch back on the upload page
+export interface BatchSession {
+  batch: Batch;
+  documents: StoredDocument[]; // in batch order
+  failures: BatchFailure[];
+  signatures: Signature[];
+}
+
+export function documentRecord(
+  data: PdfData,
+  position: number,
+  fileName: string,
+  fileContent: string,
+): { document: InsertBatchDocument; fields: InsertExtractedField[] } {
+  const {
+    date,
+    employeeName,
+    employeePAN,
+    financialYear,
+    assessmentYear,
+    employeePath,
+    companyName,
+    contentHash,
+    uploadStatus,
+    uploadId,
+    provenance,
+    panValidation,
+    ...details
+  } = data;
+
+  return {
+    document: {
+      position,
+      fileName,
+      fileContent,
+      employeePath,
+      companyName,
+      date,
+      employeeName,
+      employeePAN,
+      financialYear,
+      assessmentYear,
+      panStatus: panValidation.status,
+      panReasons: panValidation.reasons,
+      // An upload still in flight when the batch was saved has to be tried again
+      uploadStatus: uploadStatus === "success" || uploadStatus === "error" ? uploadStatus : "pending",
+      uploadId: uploadId ?? null,
+      contentHash: contentHash ?? null,
+      details,
+    },
+    fields: profileFields.map((field) => ({
+      field,
+      source: provenance[field].source,
+      page: provenance[field].page ?? null,
+      boundingBox: provenance[field].boundingBox ?? null,
+      rule: provenance[field].rule ?? null,
+      confidence: provenance[field].confidence,
+    })),
+  };
+}
+
+export function documentPdfData(document: StoredDocument): PdfData {
+  const provenance = Object.fromEntries(document.fields.map((row) => [row.field, {
+    source: row.source,
+    page: row.page ?? undefined,
+    boundingBox: row.boundingBox ?? undefined,
+    rule: row.rule ?? undefined,
+    confidence: row.confidence,
+  }])) as FieldProvenanceMap;
+
+  return {
+    ...document.details,
+    date: document.date,
+    employeeName: document.employeeName,
+    employeePAN: document.employeePAN,
+    financialYear: document.financialYear,
+    assessmentYear: document.assessmentYear,
+    employeePath: document.employeePath,
+    companyName: document.companyName,
+    contentHash: document.contentHash ?? undefined,
+    uploadStatus: document.uploadStatus,
+    uploadId: document.uploadId ?? undefined,
+    provenance,
+    panValidation: { status: document.panStatus, reasons: document.panReasons },
+  };
+}
@@ -0,0 +1,68 @@
+// Classifies incoming PDFs by the text signatures each document type prints,
+// so company folders that mix Form 16s with other attachments are routed correctly.
+
+export const documentTypes = [
+  "form16",
+  "form16-part-a",
+  "form16-part-b",
+  "form16-combined",
+  "form16a",
+  "form12ba",
+  "payslip",
+  "unknown",
+] as const;
+
+export type DocumentType = (typeof documentTypes)[number];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  "form16": "Form 16",
+  "form16-part-a": "Form 16 Part A",
+  "form16-part-b": "Form 16 Part B",
+  "form16-combined": "Form 16 Part A+B",
+  "form16a": "Form 16A",
+  "form12ba": "Form 12BA",
+  "payslip": "Payslip",
+  "unknown": "Unclassified",
+};
+
+export interface DocumentClassification {
+  type: DocumentType;
+  signatures: string[];
+}
+
+const SIGNATURES = {
+  form16: /FORM\s+(?:NO\.?\s*)?16\b(?!\s*A\b)|Certificate\s+under\s+section\s+203|Employee\s+PAN\s*:/i,
+  form16a: /FORM\s+(?:NO\.?\s*)?16\s*A\b|other\s+than\s+salary/i,
+  form12ba: /FORM\s+(?:NO\.?\s*)?12\s*BA\b(?!\s*,)[\s\S]{0,300}?(?:rule\s+26A|particulars\s+of\s+perquisites)|Statement\s+showing\s+particulars\s+of\s+perquisites/i,
+  partA: /PART\s*[-–]?\s*A\b[\s\S]*?(?:TAN\s+of\s+the\s+(?:Deductor|Employer)|Summary\s+of\s+amount\s+paid|quarterly\s+statements)/i,
+  partB: /PART\s*[-–]?\s*B\b[\s\S]*?(?:Details\s+of\s+Salary\s+Paid|Gross\s+Salary|Chapter\s+VI-?A)/i,
+  payslip: /\bpay\s*slip\b|\bsalary\s+slip\b|payslip\s+for\s+the\s+month|\bnet\s+pay(?:able)?\b[\s\S]{0,200}?\b(?:earnings|deductions)\b/i,
+};
+
+type Signature = keyof typeof SIGNATURES;
+
+export function classifyDocument(text: string, fileName = ""): DocumentClassification {
+  const signatures = (Object.keys(SIGNATURES) as Signature[]).filter((name) =>
+    SIGNATURES[name].test(text),
+  );
+  const has = (name: Signature) => signatures.includes(name);
+  const result = (type: DocumentType): DocumentClassification => ({ type, signatures });
+
+  if (has("form16a") && !has("partB")) return result("form16a");
+  if (has("partA") && has("partB")) return result("form16-combined");
+  if (has("partA")) return result("form16-part-a");
+  if (has("partB")) return result("form16-part-b");
+  if (has("form12ba")) return result("form12ba");
+  if (has("form16")) return result("form16");
+  if (has("payslip")) return result("payslip");
+
+  // Text without any signature but a Form 16 file name, e.g. a vendor layout without headings
+  if (text.trim() && /form[\s_-]*16(?!\s*a)/i.test(fileName)) return result("form16");
+  return result("unknown");
+}
+
+export const hasPartA = (type: DocumentType) =>
+  type === "form16" || type === "form16-part-a" || type === "form16-combined" || type === "form16a";
+
+export const hasPartB = (type: DocumentType) =>
+  type === "form16" || type === "form16-part-b" || type === "form16-combined";
@@ -0,0 +1,50 @@
+// Finds where one employee's Form 16 ends and the next begins in a combined PDF.
+// TRACES and most payroll tools repeat the employee PAN and certificate number on
+// every page, so a page that names a different PAN or certificate starts a new document.
+
+export interface PageRange {
+  start: number; // 1-based, inclusive
+  end: number;
+}
+
+const EMPLOYEE_PAN = /(?:PAN\s+of\s+(?:the\s+)?Employee(?:\/Specified\s+senior\s+citizen)?|Employee\s+PAN)\s*:?\s*([A-Z]{5}[0-9]{4}[A-Z])/;
+const CERTIFICATE_NUMBER = /Certificate\s+(?:No\.?|Number)\s*:?\s*([A-Z0-9]{5,})/i;
+
+interface PageSignature {
+  pan: string;
+  certificateNumber: string;
+}
+
+const signPage = (text: string): PageSignature => ({
+  pan: text.match(EMPLOYEE_PAN)?.[1] || "",
+  certificateNumber: text.match(CERTIFICATE_NUMBER)?.[1] || "",
+});
+
+const differs = (value: string, current: string) => Boolean(value && current && value !== current);
+
+export function splitDocuments(pages: string[]): PageRange[] {
+  if (pages.length === 0) return [{ start: 1, end: 1 }];
+
+  const ranges: PageRange[] = [];
+  let current: PageRange = { start: 1, end: 1 };
+  let currentPage: PageSignature = { pan: "", certificateNumber: "" };
+
+  pages.forEach((text, index) => {
+    const page = signPage(text);
+
+    if (index > 0 && (differs(page.pan, currentPage.pan) || differs(page.certificateNumber, currentPage.certificateNumber))) {
+      ranges.push(current);
+      current = { start: index + 1, end: index + 1 };
+      currentPage = { pan: "", certificateNumber: "" };
+    }
+
+    current.end = index + 1;
+    currentPage = {
+      pan: currentPage.pan || page.pan,
+      certificateNumber: currentPage.certificateNumber || page.certificateNumber,
+    };
+  });
+
+  ranges.push(current);
+  return ranges;
+}
@@ -0,0 +1,93 @@
+// Duplicate detection across a batch. The same file dropped twice has the same content
+// hash; an original and a revised Form 16 differ in content but are issued to the same
+// PAN for the same financial year by the same deductor (TAN). Both end up in one group,
+// and the user picks which document of a group is uploaded and signed.
+
+import type { PdfData } from "./form16";
+import { PAN_FORMAT } from "./panValidation";
+
+// identical: every document of the group has the same content; conflict: versions differ
+export type DuplicateKind = "identical" | "conflict";
+
+export interface DuplicateGroup {
+  key: string;
+  kind: DuplicateKind;
+  indices: number[]; // positions in the batch, in batch order
+}
+
+// The document of a group to keep, and whether it supersedes an earlier issue
+export interface DuplicateResolution {
+  chosen: number;
+  revised: boolean;
+}
+
+type DuplicateFields = Pick<PdfData, "contentHash" | "pageRange" | "employeePAN" | "financialYear" | "partA">;
+
+// A combined PDF yields several documents from one file, so the page range is part of it
+export function contentFingerprint(data: DuplicateFields): string | undefined {
+  return data.contentHash && `${data.contentHash}:${data.pageRange.start}-${data.pageRange.end}`;
+}
+
+// (PAN, FY, TAN); documents without a usable PAN cannot be matched this way
+export function documentIdentity(data: DuplicateFields): string | undefined {
+  if (!PAN_FORMAT.test(data.employeePAN)) return undefined;
+  return [data.employeePAN, data.financialYear, data.partA.deductorTAN].join("|");
+}
+
+export function findDuplicateGroups(documents: DuplicateFields[]): DuplicateGroup[] {
+  // Union-find over batch positions; documents sharing a fingerprint or identity are joined
+  const parent = documents.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const firstWith = new Map<string, number>();
+
+  documents.forEach((data, index) => {
+    for (const key of [contentFingerprint(data), documentIdentity(data)]) {
+      if (!key) continue;
+      const first = firstWith.get(key);
+      if (first === undefined) {
+        firstWith.set(key, index);
+      } else {
+        parent[root(index)] = root(first);
+      }
+    }
+  });
+
+  const members = new Map<number, number[]>();
+  documents.forEach((_, index) => {
+    const group = root(index);
+    members.set(group, [...(members.get(group) ?? []), index]);
+  });
+
+  return Array.from(members.values())
+    .filter((indices) => indices.length > 1)
+    .map((indices) => {
+      const first = documents[indices[0]];
+      const fingerprints = new Set(indices.map((index) => contentFingerprint(documents[index])));
+      const identical = fingerprints.size === 1 && !fingerprints.has(undefined);
+      return {
+        key: documentIdentity(first) ?? contentFingerprint(first) ?? String(indices[0]),
+        kind: identical ? "identical" : "conflict",
+        indices,
+      };
+    });
+}
+
+// Positions left out of upload and signing: the unchosen members of each group. Identical
+// copies keep the first one unless told otherwise; unresolved conflicts keep none.
+export function excludedDocuments(
+  groups: DuplicateGroup[],
+  resolutions: Record<string, DuplicateResolution>,
+): Set<number> {
+  const excluded = new Set<number>();
+  for (const group of groups) {
+    const resolution = resolutions[group.key];
+    const chosen = resolution && group.indices.includes(resolution.chosen)
+      ? resolution.chosen
+      : group.kind === "identical" ? group.indices[0] : undefined;
+    group.indices.filter((index) => index !== chosen).forEach((index) => excluded.add(index));
+  }
+  return excluded;
+}
+
+export const isUnresolved = (group: DuplicateGroup, resolutions: Record<string, DuplicateResolution>) =>
+  group.kind === "conflict" && !group.indices.includes(resolutions[group.key]?.chosen ?? -1);
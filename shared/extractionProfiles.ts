@@ -0,0 +1,245 @@
+// Extraction profiles describe how a payroll vendor labels the Form 16 header fields.
+// Each field lists label synonyms, the pattern of the value that follows the label,
+// which pages to search and the clean-up applied to the match. A locator can point the
+// field at the page layout instead: the value right of or below a label, or a table cell.
+
+import { z } from "zod";
+import {
+  locateText,
+  readTable,
+  tableColumn,
+  valueBelow,
+  valueRightOf,
+  type BoundingBox,
+  type PageLayout,
+} from "./layout";
+
+export const profileFields = [
+  "date",
+  "employeeName",
+  "employeePAN",
+  "financialYear",
+  "assessmentYear",
+] as const;
+
+export const postProcessSteps = [
+  "trim",
+  "collapseWhitespace",
+  "uppercase",
+  "lowercase",
+  "titleCase",
+  "removeSpaces",
+] as const;
+
+export type ProfileField = (typeof profileFields)[number];
+export type PostProcessStep = (typeof postProcessSteps)[number];
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const pageScopeSchema = z.union([
+  z.enum(["all", "first", "last"]),
+  z.object({
+    from: z.number().int().min(1),
+    to: z.number().int().min(1).optional(),
+  }),
+]);
+
+const patternSchema = z.string().min(1).refine(isValidPattern, "Pattern is not a valid regular expression");
+
+// Without a locator the value is matched in the joined page text right after a label
+export const locatorSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("rightOf") }),
+  z.object({ kind: z.literal("below") }),
+  z.object({
+    kind: z.literal("tableColumn"),
+    table: patternSchema, // matches the table's header line
+    column: patternSchema, // matches the column header
+    row: z.number().int().min(1).default(1),
+  }),
+]);
+
+export const fieldDefinitionSchema = z.object({
+  field: z.enum(profileFields),
+  labels: z.array(z.string().min(1)).min(1),
+  valuePattern: z.string().min(1).refine(isValidPattern, "Value pattern is not a valid regular expression"),
+  pageScope: pageScopeSchema.default("all"),
+  postProcess: z.array(z.enum(postProcessSteps)).default(["trim"]),
+  locator: locatorSchema.optional(),
+});
+
+export type PageScope = z.infer<typeof pageScopeSchema>;
+export type FieldLocator = z.infer<typeof locatorSchema>;
+export type FieldDefinition = z.infer<typeof fieldDefinitionSchema>;
+
+export interface ProfileDefinition {
+  name: string;
+  description: string;
+  fields: FieldDefinition[];
+}
+
+export const DEFAULT_PROFILE_NAME = "Default";
+
+// The patterns the extractor has always used, kept as the fallback profile
+export const DEFAULT_PROFILE: ProfileDefinition = {
+  name: DEFAULT_PROFILE_NAME,
+  description: "Generic payroll layout with \"Label: value\" pairs",
+  fields: [
+    { field: "date", labels: ["Date"], valuePattern: "\\d{2}-[A-Za-z]{3}-\\d{4}", pageScope: "all", postProcess: ["trim"] },
+    { field: "employeeName", labels: ["Employee Name"], valuePattern: "[A-Za-z\\s]+", pageScope: "all", postProcess: ["trim"], locator: { kind: "rightOf" } },
+    { field: "employeePAN", labels: ["Employee PAN"], valuePattern: "[A-Z0-9]+", pageScope: "all", postProcess: ["trim"] },
+    { field: "financialYear", labels: ["Financial Year"], valuePattern: "\\d{4}-\\d{2}", pageScope: "all", postProcess: ["trim"] },
+    { field: "assessmentYear", labels: ["Assessment Year"], valuePattern: "\\d{4}-\\d{2}", pageScope: "all", postProcess: ["trim"] },
+  ],
+};
+
+export const BUILT_IN_PROFILES: ProfileDefinition[] = [
+  DEFAULT_PROFILE,
+  {
+    name: "TRACES",
+    description: "Form 16 Part A downloaded from the TRACES portal",
+    fields: [
+      { field: "date", labels: ["Last updated on", "Date"], valuePattern: "\\d{2}-[A-Za-z]{3}-\\d{4}", pageScope: "first", postProcess: ["trim"] },
+      { field: "employeeName", labels: ["Name and address of the Employee"], valuePattern: "[A-Z][A-Za-z.]*(?:\\s[A-Z][A-Za-z.]*){0,3}", pageScope: "first", postProcess: ["collapseWhitespace", "titleCase"] },
+      { field: "employeePAN", labels: ["PAN of the Employee", "PAN of the Employee/Specified senior citizen"], valuePattern: "[A-Z0-9]{10}", pageScope: "first", postProcess: ["removeSpaces", "uppercase"] },
+      { field: "financialYear", labels: ["Financial Year"], valuePattern: "\\d{4}-\\d{2}", pageScope: "all", postProcess: ["trim"] },
+      { field: "assessmentYear", labels: ["Assessment Year"], valuePattern: "\\d{4}-\\d{2}", pageScope: "first", postProcess: ["trim"] },
+    ],
+  },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+
+function applyPostProcess(value: string, steps: PostProcessStep[]): string {
+  return steps.reduce((result, step) => {
+    switch (step) {
+      case "trim":
+        return result.trim();
+      case "collapseWhitespace":
+        return result.replace(/\s+/g, " ").trim();
+      case "uppercase":
+        return result.toUpperCase();
+      case "lowercase":
+        return result.toLowerCase();
+      case "titleCase":
+        return titleCase(result);
+      case "removeSpaces":
+        return result.replace(/\s+/g, "");
+      default:
+        return result;
+    }
+  }, value);
+}
+
+// 1-based numbers of the pages a scope covers
+function scopePageNumbers(pageCount: number, scope: PageScope): number[] {
+  const all = Array.from({ length: pageCount }, (_, index) => index + 1);
+  if (scope === "all") return all;
+  if (scope === "first") return all.slice(0, 1);
+  if (scope === "last") return all.slice(-1);
+  return all.slice(scope.from - 1, scope.to ?? scope.from);
+}
+
+export function selectPages<T>(pages: T[], scope: PageScope): T[] {
+  return scopePageNumbers(pages.length, scope).map((pageNumber) => pages[pageNumber - 1]);
+}
+
+// Human readable form of a field rule, recorded with every extracted value
+export function describeRule(definition: FieldDefinition): string {
+  const labels = definition.labels.map((label) => `"${label}"`).join(" / ");
+  const locator = definition.locator;
+  if (!locator) return `${labels} followed by /${definition.valuePattern}/`;
+  if (locator.kind === "tableColumn") {
+    return `table /${locator.table}/ column /${locator.column}/ row ${locator.row}`;
+  }
+  return `${locator.kind === "rightOf" ? "right of" : "below"} ${labels}`;
+}
+
+export interface FieldMatch {
+  value: string;
+  page: number; // 1-based, within the pages passed in
+  boundingBox?: BoundingBox;
+  rule: string;
+  viaLayout: boolean;
+}
+
+function locateValue(layout: PageLayout, definition: FieldDefinition, labels: RegExp): string {
+  const locator = definition.locator;
+  if (!locator) return "";
+  if (locator.kind === "rightOf") return valueRightOf(layout, labels);
+  if (locator.kind === "below") return valueBelow(layout, labels);
+
+  const table = readTable(layout, new RegExp(locator.table, "i"));
+  return table ? tableColumn(table, new RegExp(locator.column, "i"))[locator.row - 1] ?? "" : "";
+}
+
+// Page holding the character at `offset` of the pages joined with single spaces
+function pageAtOffset(pages: string[], pageNumbers: number[], offset: number): number {
+  let end = 0;
+  for (const pageNumber of pageNumbers) {
+    end += pages[pageNumber - 1].length + 1;
+    if (offset < end) return pageNumber;
+  }
+  return pageNumbers[pageNumbers.length - 1] ?? 1;
+}
+
+// Layout locators are tried on each selected page first; when the page has no layout
+// (OCR text) or nothing is found there, the label is matched in the joined text.
+export function matchField(
+  pages: string[],
+  definition: FieldDefinition,
+  layouts: PageLayout[] = [],
+): FieldMatch | undefined {
+  const labels = definition.labels.map(escapeRegExp).join("|");
+  const pageNumbers = scopePageNumbers(pages.length, definition.pageScope);
+  const rule = describeRule(definition);
+  const found = (raw: string, page: number, viaLayout: boolean): FieldMatch | undefined => {
+    const value = applyPostProcess(raw, definition.postProcess);
+    if (!value) return undefined;
+    const layout = layouts[page - 1];
+    return { value, page, boundingBox: layout && locateText(layout, raw), rule, viaLayout };
+  };
+
+  if (definition.locator) {
+    const valuePattern = new RegExp(definition.valuePattern);
+    for (const page of pageNumbers) {
+      const layout = layouts[page - 1];
+      if (!layout) continue;
+      const match = locateValue(layout, definition, new RegExp(`(?:${labels})`)).match(valuePattern);
+      const result = match && found(match[0], page, true);
+      if (result) return result;
+    }
+    if (definition.locator.kind === "tableColumn") return undefined;
+  }
+
+  const pattern = new RegExp(`(?:${labels})\\s*:?\\s+(${definition.valuePattern})`);
+  const match = pageNumbers.map((page) => pages[page - 1]).join(" ").match(pattern);
+  if (!match || match.index === undefined) return undefined;
+
+  const valueOffset = match.index + match[0].length - match[1].length;
+  return found(match[1], pageAtOffset(pages, pageNumbers, valueOffset), false);
+}
+
+// Matches found for each field the profile defines; missing fields are left out
+export function applyProfile(
+  pages: string[],
+  fields: FieldDefinition[],
+  layouts: PageLayout[] = [],
+): Partial<Record<ProfileField, FieldMatch>> {
+  const values: Partial<Record<ProfileField, FieldMatch>> = {};
+  for (const definition of fields) {
+    if (values[definition.field]) continue;
+    const match = matchField(pages, definition, layouts);
+    if (match) values[definition.field] = match;
+  }
+  return values;
+}
@@ -0,0 +1,299 @@
+// Form 16 field extraction shared by the browser and the server, which both parse with
+// pdfjs-dist. Each side turns a PDF into plain text per page, plus the positioned text
+// items of each page where available, and then hands them to extractForm16Fields.
+
+import { applyProfile, DEFAULT_PROFILE, type FieldDefinition, type ProfileField } from "./extractionProfiles";
+import { classifyDocument, hasPartA, hasPartB, type DocumentType } from "./documentClassifier";
+import { splitDocuments, type PageRange } from "./documentSplitter";
+import type { PageLayout } from "./layout";
+import { validatePan, type PanValidation } from "./panValidation";
+import { resolvePathFields, type PathFields } from "./pathTemplates";
+import { scoreConfidence, type FieldProvenance, type FieldProvenanceMap, type FieldSource } from "./provenance";
+import { emptyPartA, extractPartA, type Form16PartA } from "./form16PartA";
+import { emptyPartB, extractPartB, type Form16PartB } from "./form16PartB";
+import { formatFinancialYear, parseFinancialYear } from "./yearValidation";
+
+export type { Form16PartA, QuarterlyTdsEntry } from "./form16PartA";
+export type { Form16PartB, ChapterVIADeduction, TaxRegime } from "./form16PartB";
+export type { DocumentType } from "./documentClassifier";
+export type { PageRange } from "./documentSplitter";
+export type { PageLayout } from "./layout";
+export type { FieldProvenance, FieldProvenanceMap, FieldSource } from "./provenance";
+export type { PanValidation, PanValidationStatus } from "./panValidation";
+export type { DuplicateGroup, DuplicateKind, DuplicateResolution } from "./duplicates";
+
+export type UploadStatus = "pending" | "uploading" | "success" | "error";
+
+// Where the text behind a document came from: the PDF's own text layer or OCR of the page image
+export type TextSource = "pdf-text" | "ocr";
+
+export interface PdfData {
+  date: string;
+  employeeName: string;
+  employeePAN: string;
+  financialYear: string;
+  assessmentYear: string;
+  employeePath: string;
+  companyName: string;
+  pathFields: PathFields; // company, employee, PAN and FY read from the folders
+  pdfread: string; // start of the extracted text
+  documentType: DocumentType;
+  pageRange: PageRange; // pages of the source PDF this document covers
+  textSource: TextSource;
+  provenance: FieldProvenanceMap; // source, location and confidence of each header field
+  panValidation: PanValidation;
+  contentHash?: string; // SHA-256 of the source PDF
+  revised?: boolean; // supersedes an earlier Form 16 for the same PAN, FY and TAN
+  partA: Form16PartA;
+  partB: Form16PartB;
+  uploadStatus?: UploadStatus;
+  uploadId?: string;
+  manualCorrection?: ManualCorrection; // header fields a reviewer fixed by hand
+}
+
+// Header fields a reviewer can correct when the extracted PAN fails validation
+export type CorrectableField = "employeePAN" | "employeeName" | "financialYear";
+
+// Audit record of a manual correction: when it was made and the values it replaced
+export interface ManualCorrection {
+  correctedAt: string; // ISO timestamp
+  original: Pick<PdfData, CorrectableField | "assessmentYear">;
+}
+
+export type ExtractedPdfFields = Omit<
+  PdfData,
+  "employeePath" | "companyName" | "pathFields" | "panValidation" | "contentHash" | "revised" | "uploadStatus" | "uploadId" | "manualCorrection"
+>;
+
+export const EXTRACTION_FAILED = "EXTRACTION_FAILED";
+export const DEFAULT_FINANCIAL_YEAR = "2024-25";
+export const DEFAULT_ASSESSMENT_YEAR = "2025-26";
+export const PDF_READ_ERROR = "Error reading PDF content";
+export const PDF_DECRYPT_ERROR = "PDF is password protected and could not be decrypted";
+export const UNKNOWN_EMPLOYEE = "Unknown Employee";
+
+// Number of characters of raw text kept on each record for troubleshooting
+const PDF_READ_LENGTH = 2000;
+
+// Scanned pages carry no text layer, or only a stray page number or watermark
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+export function needsOcr(pageText: string): boolean {
+  return pageText.replace(/\s+/g, "").length < MIN_PAGE_TEXT_LENGTH;
+}
+
+const formatToday = () =>
+  new Date().toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+export function getCompanyName(employeePath: string): string {
+  return resolvePathFields(employeePath).company;
+}
+
+function checkPan(data: PdfData): PanValidation {
+  if (data.employeePAN === EXTRACTION_FAILED) {
+    return { status: "invalid", reasons: ["PAN not found in the document"] };
+  }
+  const knownName = data.provenance.employeeName.source !== "default";
+  return validatePan(data.employeePAN, data.employeeName, data.pathFields, knownName);
+}
+
+// Combines extracted fields with the folder they were uploaded from, read with the
+// upload's path template. The employee's folder names them when neither the PDF nor the
+// file name did, and the PAN is checked against it.
+export function toPdfData(
+  extracted: ExtractedPdfFields,
+  employeePath: string,
+  pathFields: PathFields = resolvePathFields(employeePath),
+): PdfData {
+  const data: PdfData = {
+    ...extracted,
+    employeePath,
+    companyName: pathFields.company,
+    pathFields,
+    panValidation: { status: "valid", reasons: [] },
+    uploadStatus: "pending",
+  };
+
+  const folderName = pathFields.employee;
+  if (folderName && extracted.provenance.employeeName.source === "default") {
+    data.employeeName = folderName;
+    data.provenance = {
+      ...extracted.provenance,
+      employeeName: {
+        source: "folder",
+        rule: "employee folder name",
+        confidence: scoreConfidence("employeeName", folderName, "folder"),
+      },
+    };
+  }
+  data.panValidation = checkPan(data);
+  return data;
+}
+
+// The document with a reviewer's values for its header fields, revalidated and pending
+// upload again. The AY follows the corrected FY; changed fields are marked as manual.
+// Throws when the FY cannot be read.
+export function applyManualCorrection(
+  data: PdfData,
+  values: Pick<PdfData, CorrectableField>,
+  correctedAt = new Date().toISOString(),
+): PdfData {
+  const financialYear = parseFinancialYear(values.financialYear);
+  if (!financialYear) throw new Error(`"${values.financialYear}" is not a financial year`);
+
+  const corrected: PdfData = {
+    ...data,
+    employeePAN: values.employeePAN.trim().toUpperCase(),
+    employeeName: values.employeeName.trim(),
+    financialYear: formatFinancialYear(financialYear),
+    assessmentYear: formatFinancialYear({ start: financialYear.start + 1, end: financialYear.end + 1 }),
+    uploadStatus: "pending",
+    uploadId: undefined,
+    manualCorrection: {
+      correctedAt,
+      // A second correction keeps the values originally extracted
+      original: data.manualCorrection?.original ?? {
+        employeePAN: data.employeePAN,
+        employeeName: data.employeeName,
+        financialYear: data.financialYear,
+        assessmentYear: data.assessmentYear,
+      },
+    },
+  };
+
+  const provenance = { ...data.provenance };
+  for (const field of ["employeePAN", "employeeName", "financialYear", "assessmentYear"] as const) {
+    if (corrected[field] !== data[field]) {
+      provenance[field] = { source: "manual", rule: "manual correction", confidence: scoreConfidence(field, corrected[field], "manual") };
+    }
+  }
+  corrected.provenance = provenance;
+  corrected.panValidation = checkPan(corrected);
+  return corrected;
+}
+
+// The document is classified first so Part A/B parsing only runs where those parts exist.
+// Header fields come from the extraction profile; pages are the text of each PDF page and
+// layouts the matching positioned items (empty for OCR text).
+export function extractForm16Fields(
+  pages: string[],
+  fileName: string,
+  fields: FieldDefinition[] = DEFAULT_PROFILE.fields,
+  pageRange: PageRange = { start: 1, end: pages.length || 1 },
+  textSource: TextSource = "pdf-text",
+  layouts: PageLayout[] = [],
+): ExtractedPdfFields {
+  const text = pages.join(" ");
+  const { type: documentType } = classifyDocument(text, fileName);
+  const matches = applyProfile(pages, fields, layouts);
+
+  // A value read by a profile rule, or the fallback with where it came from
+  const resolve = (field: ProfileField, fallback: string, source: FieldSource, rule: string) => {
+    const match = matches[field];
+    if (!match) {
+      return { value: fallback, provenance: { source, rule, confidence: scoreConfidence(field, fallback, source) } };
+    }
+    const pdfSource: FieldSource = textSource === "ocr" ? "ocr" : "pdf-text";
+    return {
+      value: match.value,
+      provenance: {
+        source: pdfSource,
+        page: pageRange.start + match.page - 1,
+        boundingBox: match.boundingBox,
+        rule: match.rule,
+        confidence: scoreConfidence(field, match.value, pdfSource, match.viaLayout),
+      },
+    };
+  };
+
+  const fileNameMatch = fileName.match(/([A-Z][a-zA-Z\s]+?)_/);
+  const date = resolve("date", formatToday(), "default", "today's date");
+  const employeeName = fileNameMatch
+    ? resolve("employeeName", fileNameMatch[1].replace(/_/g, " "), "filename", "file name before the first underscore")
+    : resolve("employeeName", UNKNOWN_EMPLOYEE, "default", "no name found");
+  const employeePAN = resolve("employeePAN", EXTRACTION_FAILED, "default", "no PAN found");
+  const financialYear = resolve("financialYear", DEFAULT_FINANCIAL_YEAR, "default", "default financial year");
+  const assessmentYear = resolve("assessmentYear", DEFAULT_ASSESSMENT_YEAR, "default", "default assessment year");
+
+  return {
+    date: date.value,
+    employeeName: employeeName.value,
+    employeePAN: employeePAN.value,
+    financialYear: financialYear.value,
+    assessmentYear: assessmentYear.value,
+    provenance: {
+      date: date.provenance,
+      employeeName: employeeName.provenance,
+      employeePAN: employeePAN.provenance,
+      financialYear: financialYear.provenance,
+      assessmentYear: assessmentYear.provenance,
+    },
+    pdfread: text.substring(0, PDF_READ_LENGTH),
+    documentType,
+    pageRange,
+    textSource,
+    partA: hasPartA(documentType) ? extractPartA(text, layouts) : emptyPartA(),
+    partB: hasPartB(documentType) ? extractPartB(text, layouts) : emptyPartB(),
+  };
+}
+
+// A combined PDF holding several employees' Form 16s yields one record per employee.
+// pageSources says how each page's text was obtained; a document is flagged as OCR
+// when any of its pages was recognised from the image.
+export function extractForm16Documents(
+  pages: string[],
+  fileName: string,
+  fields: FieldDefinition[] = DEFAULT_PROFILE.fields,
+  pageSources: TextSource[] = [],
+  layouts: PageLayout[] = [],
+): ExtractedPdfFields[] {
+  return splitDocuments(pages).map((range) => {
+    const slice = <T>(values: T[]) => values.slice(range.start - 1, range.end);
+    const textSource: TextSource = slice(pageSources).includes("ocr") ? "ocr" : "pdf-text";
+    return extractForm16Fields(slice(pages), fileName, fields, range, textSource, slice(layouts));
+  });
+}
+
+// Record used when the PDF itself could not be read; reason is PDF_READ_ERROR or PDF_DECRYPT_ERROR
+export function fallbackForm16Fields(fileName: string, reason = PDF_READ_ERROR): ExtractedPdfFields {
+  const employeeName = fileName.replace("_Form16.pdf", "").replace(/_/g, " ");
+  const inferred = (field: ProfileField, value: string, source: FieldSource, rule: string): FieldProvenance => ({
+    source,
+    rule,
+    confidence: scoreConfidence(field, value, source),
+  });
+
+  return {
+    date: formatToday(),
+    employeeName,
+    employeePAN: EXTRACTION_FAILED,
+    financialYear: DEFAULT_FINANCIAL_YEAR,
+    assessmentYear: DEFAULT_ASSESSMENT_YEAR,
+    provenance: {
+      date: inferred("date", formatToday(), "default", "today's date"),
+      employeeName: inferred("employeeName", employeeName, "filename", "file name"),
+      employeePAN: inferred("employeePAN", EXTRACTION_FAILED, "default", reason),
+      financialYear: inferred("financialYear", DEFAULT_FINANCIAL_YEAR, "default", "default financial year"),
+      assessmentYear: inferred("assessmentYear", DEFAULT_ASSESSMENT_YEAR, "default", "default assessment year"),
+    },
+    pdfread: reason,
+    documentType: "unknown",
+    pageRange: { start: 1, end: 1 },
+    textSource: "pdf-text",
+    partA: emptyPartA(),
+    partB: emptyPartB(),
+  };
+}
+
+export function isDecryptionFailure(data: Pick<PdfData, "pdfread">): boolean {
+  return data.pdfread === PDF_DECRYPT_ERROR;
+}
+
+// Readable documents that match no known type; unreadable ones are extraction failures
+export function isUnclassified(data: Pick<PdfData, "documentType" | "pdfread">): boolean {
+  return data.documentType === "unknown" && data.pdfread !== PDF_READ_ERROR && !isDecryptionFailure(data);
+}
@@ -0,0 +1,177 @@
+// Form 16 Part A: certificate, deductor and quarter-wise TDS details.
+// Patterns accept both TRACES wording ("TAN of the Deductor") and the
+// "Label: value" layout produced by most payroll software. When page layouts are
+// available the quarterly table is read by column rather than from the joined text.
+
+import { AMOUNT_PATTERN, parseIndianAmount } from "./amounts";
+import { readTable, tableColumn, type PageLayout } from "./layout";
+
+export interface QuarterlyTdsEntry {
+  quarter: string; // Q1-Q4
+  receiptNumber: string;
+  amountPaid: number;
+  taxDeducted: number;
+  taxRemitted: number;
+}
+
+export interface Form16PartA {
+  certificateNumber: string;
+  deductorName: string;
+  deductorAddress: string;
+  deductorTAN: string;
+  deductorPAN: string;
+  citTds: string;
+  periodFrom: string;
+  periodTo: string;
+  quarters: QuarterlyTdsEntry[];
+  totalAmountPaid: number;
+  totalTaxDeducted: number;
+  totalTaxRemitted: number;
+}
+
+const DATE_PATTERN = "(\\d{2}[-/.](?:[A-Za-z]{3}|\\d{2})[-/.]\\d{4})";
+
+// Suffixes that usually end the employer name before the address starts
+const COMPANY_SUFFIX = /^(.*?\b(?:PRIVATE\s+LIMITED|PVT\.?\s+LTD\.?|LIMITED|LTD\.?|LLP|INC\.?|CORPORATION|COMPANY))\s*,?\s*(.*)$/i;
+
+// Stops a "Label: value" capture where the next label of the layout begins
+const NEXT_LABEL = "(?=\\s+(?:(?:Deductor|Employer|Employee)\\s+\\w+|TAN|PAN|Address|Certificate\\s+No\\.?)\\s*:|$)";
+
+const matchFirst = (text: string, patterns: RegExp[]): string => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return "";
+};
+
+const squash = (value: string) => value.replace(/\s+/g, " ").trim();
+
+export function emptyPartA(): Form16PartA {
+  return {
+    certificateNumber: "",
+    deductorName: "",
+    deductorAddress: "",
+    deductorTAN: "",
+    deductorPAN: "",
+    citTds: "",
+    periodFrom: "",
+    periodTo: "",
+    quarters: [],
+    totalAmountPaid: 0,
+    totalTaxDeducted: 0,
+    totalTaxRemitted: 0,
+  };
+}
+
+function extractDeductor(text: string): { name: string; address: string } {
+  const name = matchFirst(text, [new RegExp(`(?:Deductor|Employer)\\s+Name\\s*:\\s*(.+?)${NEXT_LABEL}`, "i")]);
+  const address = matchFirst(text, [new RegExp(`(?:Deductor|Employer)\\s+Address\\s*:\\s*(.+?)${NEXT_LABEL}`, "i")]);
+  if (name) return { name: squash(name), address: squash(address) };
+
+  // TRACES prints name and address as one block
+  const block = matchFirst(text, [
+    /Name\s+and\s+address\s+of\s+the\s+(?:Employer|Deductor)(?:\/Specified\s+Bank)?\s*:?\s*(.+?)\s+Name\s+and\s+address\s+of\s+the\s+Employee/i,
+  ]);
+  if (!block) return { name: "", address: "" };
+
+  const suffixMatch = block.match(COMPANY_SUFFIX);
+  if (suffixMatch) {
+    return { name: squash(suffixMatch[1]), address: squash(suffixMatch[2]) };
+  }
+  const [first, ...rest] = block.split(",");
+  return { name: squash(first), address: squash(rest.join(",")) };
+}
+
+function extractQuarters(text: string): QuarterlyTdsEntry[] {
+  const quarterPattern = new RegExp(
+    `\\b(Q[1-4])\\s+(?:([A-Z][A-Z0-9]{7})\\s+)?${AMOUNT_PATTERN}\\s+${AMOUNT_PATTERN}\\s+${AMOUNT_PATTERN}`,
+    "g",
+  );
+  const quarters: QuarterlyTdsEntry[] = [];
+  for (const match of Array.from(text.matchAll(quarterPattern))) {
+    quarters.push({
+      quarter: match[1],
+      receiptNumber: match[2] || "",
+      amountPaid: parseIndianAmount(match[3]),
+      taxDeducted: parseIndianAmount(match[4]),
+      taxRemitted: parseIndianAmount(match[5]),
+    });
+  }
+  return quarters;
+}
+
+interface QuarterTable {
+  quarters: QuarterlyTdsEntry[];
+  total?: QuarterlyTdsEntry;
+}
+
+// TRACES prints the quarter-wise summary as a table headed "Quarter(s) | Receipt Numbers ... |
+// Amount paid/credited | Amount of tax deducted | Amount of tax deposited/remitted"
+function readQuarterTable(layouts: PageLayout[]): QuarterTable | undefined {
+  for (const layout of layouts) {
+    const table = readTable(layout, /^Quarter(?:\(s\)|s)?(?=\s|$)/i);
+    if (!table) continue;
+
+    const column = (header: RegExp) => tableColumn(table, header);
+    const quarterCells = column(/Quarter/i);
+    const receipts = column(/Receipt/i);
+    const paid = column(/paid|credited/i);
+    const deducted = column(/deducted/i);
+    const remitted = column(/deposited|remitted/i);
+    if (quarterCells.length === 0 || paid.length === 0) continue;
+
+    const entries = quarterCells.map((quarter, index) => ({
+      quarter: quarter.trim(),
+      receiptNumber: (receipts[index] || "").trim(),
+      amountPaid: parseIndianAmount(paid[index]),
+      taxDeducted: parseIndianAmount(deducted[index]),
+      taxRemitted: parseIndianAmount(remitted[index]),
+    }));
+    const quarters = entries.filter((entry) => /^Q[1-4]$/.test(entry.quarter));
+    if (quarters.length === 0) continue;
+
+    return { quarters, total: entries.find((entry) => /^Total/i.test(entry.quarter)) };
+  }
+  return undefined;
+}
+
+export function extractPartA(text: string, layouts: PageLayout[] = []): Form16PartA {
+  const deductor = extractDeductor(text);
+  const table = readQuarterTable(layouts);
+  const quarters = table ? table.quarters : extractQuarters(text);
+
+  const period = text.match(
+    new RegExp(`Period\\s+(?:with\\s+the\\s+Employer)?\\s*:?\\s*From\\s*:?\\s*${DATE_PATTERN}\\s+To\\s*:?\\s*${DATE_PATTERN}`, "i"),
+  );
+
+  const totalsMatch = text.match(
+    new RegExp(`Total\\s*\\(Rs\\.?\\)\\s+${AMOUNT_PATTERN}\\s+${AMOUNT_PATTERN}\\s+${AMOUNT_PATTERN}`, "i"),
+  );
+  const totals = table?.total
+    ? [table.total.amountPaid, table.total.taxDeducted, table.total.taxRemitted]
+    : totalsMatch && totalsMatch.slice(1, 4).map(parseIndianAmount);
+  const sum = (key: "amountPaid" | "taxDeducted" | "taxRemitted") =>
+    quarters.reduce((total, entry) => total + entry[key], 0);
+
+  return {
+    certificateNumber: matchFirst(text, [/Certificate\s+No\.?\s*:?\s*([A-Z0-9]{5,})/i]),
+    deductorName: deductor.name,
+    deductorAddress: deductor.address,
+    deductorTAN: matchFirst(text, [
+      /(?:TAN\s+of\s+(?:the\s+)?(?:Deductor|Employer)|(?:Deductor|Employer)\s+TAN)\s*:?\s*([A-Z]{4}[0-9]{5}[A-Z])/i,
+    ]),
+    deductorPAN: matchFirst(text, [
+      /(?:PAN\s+of\s+(?:the\s+)?(?:Deductor|Employer)|(?:Deductor|Employer)\s+PAN)\s*:?\s*([A-Z0-9]{10})/i,
+    ]),
+    citTds: squash(matchFirst(text, [
+      /CIT\s*\(TDS\)\s*:?\s*(.+?)\s+(?:Assessment\s+Year|Period\s+with)/i,
+    ])),
+    periodFrom: period ? period[1] : "",
+    periodTo: period ? period[2] : "",
+    quarters,
+    totalAmountPaid: totals ? totals[0] : sum("amountPaid"),
+    totalTaxDeducted: totals ? totals[1] : sum("taxDeducted"),
+    totalTaxRemitted: totals ? totals[2] : sum("taxRemitted"),
+  };
+}
@@ -0,0 +1,171 @@
+// Form 16 Part B: salary breakup, deductions and tax computation.
+// Every amount is read as the first figure printed after its label, skipping
+// the bracketed notes TRACES adds such as "(as per Form No. 12BA)" or "[(3+1(e)-5]".
+// With page layouts the figure printed on the label's own line is preferred, and the
+// joined text is the fallback for labels that wrap onto the amount's line.
+
+import { AMOUNT_PATTERN, parseIndianAmount } from "./amounts";
+import { valueRightOf, type PageLayout } from "./layout";
+
+export type TaxRegime = "old" | "new" | "unknown";
+
+export interface ChapterVIADeduction {
+  section: string; // e.g. 80C, 80CCD(1B), 80D
+  grossAmount: number;
+  deductibleAmount: number;
+}
+
+export interface Form16PartB {
+  taxRegime: TaxRegime;
+  salary: number; // 17(1)
+  perquisites: number; // 17(2)
+  profitsInLieuOfSalary: number; // 17(3)
+  grossSalary: number;
+  section10Exemptions: number;
+  standardDeduction: number;
+  professionalTax: number;
+  incomeChargeableUnderSalaries: number;
+  grossTotalIncome: number;
+  chapterVIA: ChapterVIADeduction[];
+  totalChapterVIA: number;
+  totalTaxableIncome: number;
+  taxOnIncome: number;
+  rebate87A: number;
+  surcharge: number;
+  cess: number;
+  taxPayable: number;
+  relief89: number;
+  netTaxPayable: number;
+}
+
+// Bracketed notes between a label and its amount
+const NOTES = "(?:\\s*(?:\\[[^\\]]*\\]|\\((?:[^()]|\\([^()]*\\))*\\)))*";
+
+const amountAfter = (text: string, label: RegExp): number | undefined => {
+  const match = text.match(new RegExp(`${label.source}${NOTES}\\s*:?\\s*${AMOUNT_PATTERN}(?=\\s|$)`, "i"));
+  return match ? parseIndianAmount(match[1]) : undefined;
+};
+
+const amountRightOf = (layouts: PageLayout[], label: RegExp): number | undefined => {
+  const pattern = new RegExp(`^${NOTES}\\s*:?\\s*${AMOUNT_PATTERN}(?=\\s|$)`);
+  for (const layout of layouts) {
+    const match = valueRightOf(layout, new RegExp(label.source, "i")).match(pattern);
+    if (match) return parseIndianAmount(match[1]);
+  }
+  return undefined;
+};
+
+const LABELS = {
+  salary: /section\s+17\s*\(1\)/,
+  perquisites: /section\s+17\s*\(2\)/,
+  profitsInLieuOfSalary: /section\s+17\s*\(3\)/,
+  grossSalary: /(?:Gross\s+Salary\s*:|Gross\s+Salary[\s\S]{0,600}?\(d\)\s+Total)/,
+  section10Exemptions: /(?:Total\s+amount\s+of\s+exemption\s+claimed\s+under\s+section\s+10|Allowances?\s+(?:to\s+the\s+extent\s+)?exempt\s+(?:u\/s|under\s+section)\s+10)/,
+  standardDeduction: /Standard\s+deduction(?:\s+under\s+section\s+16\s*\(ia\))?/,
+  professionalTax: /(?:Tax\s+on\s+employment(?:\s+under\s+section\s+16\s*\(iii\))?|Professional\s+tax)/,
+  incomeChargeableUnderSalaries: /Income\s+chargeable\s+under\s+the\s+head\s+"?Salaries"?/,
+  grossTotalIncome: /Gross\s+total\s+income/,
+  totalChapterVIA: /Aggregate\s+of\s+deductible\s+amount\s+under\s+Chapter\s+VI-?A/,
+  totalTaxableIncome: /Total\s+taxable\s+income/,
+  taxOnIncome: /Tax\s+on\s+total\s+income/,
+  rebate87A: /Rebate\s+under\s+section\s+87A(?:,?\s+if\s+applicable)?/,
+  surcharge: /Surcharge(?:,?\s+wherever\s+applicable)?/,
+  cess: /Health\s+and\s+education\s+cess/,
+  taxPayable: /(?<!Net\s)Tax\s+payable/,
+  relief89: /Relief\s+under\s+section\s+89/,
+  netTaxPayable: /Net\s+tax\s+payable/,
+};
+
+export function emptyPartB(): Form16PartB {
+  return {
+    taxRegime: "unknown",
+    salary: 0,
+    perquisites: 0,
+    profitsInLieuOfSalary: 0,
+    grossSalary: 0,
+    section10Exemptions: 0,
+    standardDeduction: 0,
+    professionalTax: 0,
+    incomeChargeableUnderSalaries: 0,
+    grossTotalIncome: 0,
+    chapterVIA: [],
+    totalChapterVIA: 0,
+    totalTaxableIncome: 0,
+    taxOnIncome: 0,
+    rebate87A: 0,
+    surcharge: 0,
+    cess: 0,
+    taxPayable: 0,
+    relief89: 0,
+    netTaxPayable: 0,
+  };
+}
+
+// From AY 2024-25 Form 16 asks whether the employee opts OUT of 115BAC (new regime is
+// the default); earlier years asked whether the employee opts IN.
+export function detectTaxRegime(text: string): TaxRegime {
+  const optingOut = text.match(/opting\s+out\s+of\s+taxation\s+(?:u\/s|under\s+section)\s+115BAC(?:\s*\(1A\))?\s*\??\s*:?\s*(Yes|No)\b/i);
+  if (optingOut) return optingOut[1].toLowerCase() === "yes" ? "old" : "new";
+
+  const optingIn = text.match(/opt(?:ing|ed)\s+(?:for|in)\s+(?:taxation\s+)?(?:u\/s|under\s+section)\s+115BAC\s*\??\s*:?\s*(Yes|No)\b/i);
+  if (optingIn) return optingIn[1].toLowerCase() === "yes" ? "new" : "old";
+
+  if (/\b(?:New|Old)\s+(?:Tax\s+)?Regime\b/i.test(text)) {
+    return /\bNew\s+(?:Tax\s+)?Regime\b/i.test(text) ? "new" : "old";
+  }
+  return "unknown";
+}
+
+function extractChapterVIA(text: string): ChapterVIADeduction[] {
+  const amount = "(-?\\d[\\d,]*\\.\\d{2})";
+  const pattern = new RegExp(
+    `(?:section|u\\/s)\\s+(80[A-Z]{1,4}(?:\\s*\\(\\s*[0-9A-Z]{1,3}\\s*\\))*)${NOTES}\\s*:?\\s*${amount}(?:\\s+${amount})?(?:\\s+${amount})?`,
+    "gi",
+  );
+  const deductions: ChapterVIADeduction[] = [];
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const section = match[1].replace(/\s+/g, "").toUpperCase();
+    if (deductions.some((entry) => entry.section === section)) continue;
+
+    const amounts = match.slice(2).filter(Boolean).map(parseIndianAmount);
+    deductions.push({
+      section,
+      grossAmount: amounts[0],
+      deductibleAmount: amounts[amounts.length - 1],
+    });
+  }
+  return deductions;
+}
+
+export function extractPartB(text: string, layouts: PageLayout[] = []): Form16PartB {
+  const read = (key: keyof typeof LABELS) =>
+    amountRightOf(layouts, LABELS[key]) ?? amountAfter(text, LABELS[key]);
+
+  const salary = read("salary") ?? 0;
+  const perquisites = read("perquisites") ?? 0;
+  const profitsInLieuOfSalary = read("profitsInLieuOfSalary") ?? 0;
+  const chapterVIA = extractChapterVIA(text);
+
+  return {
+    taxRegime: detectTaxRegime(text),
+    salary,
+    perquisites,
+    profitsInLieuOfSalary,
+    grossSalary: read("grossSalary") ?? salary + perquisites + profitsInLieuOfSalary,
+    section10Exemptions: read("section10Exemptions") ?? 0,
+    standardDeduction: read("standardDeduction") ?? 0,
+    professionalTax: read("professionalTax") ?? 0,
+    incomeChargeableUnderSalaries: read("incomeChargeableUnderSalaries") ?? 0,
+    grossTotalIncome: read("grossTotalIncome") ?? 0,
+    chapterVIA,
+    totalChapterVIA: read("totalChapterVIA") ?? chapterVIA.reduce((total, entry) => total + entry.deductibleAmount, 0),
+    totalTaxableIncome: read("totalTaxableIncome") ?? 0,
+    taxOnIncome: read("taxOnIncome") ?? 0,
+    rebate87A: read("rebate87A") ?? 0,
+    surcharge: read("surcharge") ?? 0,
+    cess: read("cess") ?? 0,
+    taxPayable: read("taxPayable") ?? 0,
+    relief89: read("relief89") ?? 0,
+    netTaxPayable: read("netTaxPayable") ?? 0,
+  };
+}
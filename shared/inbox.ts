@@ -0,0 +1,34 @@
+// What the server's watched inbox reports to the UI. Each scan that finds new files
+// starts a batch, saved like the upload page's batches so its documents are listed under
+// /api/batches and /api/documents as well; its files are extracted one after another and
+// moved to `done/` or `failed/` inside the inbox.
+
+import type { BatchSummary } from "./batches";
+import type { DocumentSummary } from "./batchQueries";
+
+export type InboxFileStatus = "queued" | "extracting" | "done" | "failed";
+
+export interface InboxFile {
+  path: string; // relative to the inbox, e.g. Acme/Ann Lee/form16.pdf
+  status: InboxFileStatus;
+  reason?: string; // why the file was moved to failed/
+}
+
+// Progress of an inbox batch, saved with the batch
+export interface InboxProgress {
+  files: InboxFile[];
+  finishedAt?: string; // ISO timestamp
+}
+
+export interface InboxBatch extends BatchSummary {
+  inbox: InboxProgress;
+  documents: DocumentSummary[]; // Form 16 documents extracted so far, in the order found
+}
+
+export interface InboxStatus {
+  enabled: boolean;
+  directory?: string;
+  batches: InboxBatch[]; // newest first
+}
+
+export const isInboxBatchRunning = (progress: Pick<InboxProgress, "finishedAt">) => progress.finishedAt === undefined;
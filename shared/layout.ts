@@ -0,0 +1,230 @@
+// Positional view of a PDF page built from pdf.js text items. Joining items into one
+// string loses where they sit on the page; keeping coordinates lets rules read the value
+// printed to the right of or below a label, and the cells of a table column.
+
+// PDF user space: x grows to the right, y is the text baseline measured up from the page bottom
+export interface LayoutItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PageLayout = LayoutItem[];
+
+// Same coordinate space as LayoutItem; y is the bottom of the box
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutLine {
+  y: number;
+  items: LayoutItem[]; // left to right
+  text: string;
+}
+
+export interface LayoutTable {
+  header: string[];
+  rows: string[][];
+}
+
+// Shape of pdf.js getTextContent() items, on both the browser and Node builds
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export function layoutFromTextItems(items: PdfTextItem[]): PageLayout {
+  return items
+    .filter((item) => item.str.trim())
+    .map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      // Older pdf.js builds report no height; the font size is the vertical scale of the matrix
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]) || 10,
+    }));
+}
+
+// Items whose baselines are within half a glyph height of each other share a line
+export function buildLines(layout: PageLayout): LayoutLine[] {
+  const sorted = [...layout].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: LayoutLine[] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(2, item.height / 2)) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item], text: "" });
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+    line.text = line.items.map((item) => item.text.trim()).join(" ");
+  }
+  return lines;
+}
+
+interface LabelMatch {
+  lineIndex: number;
+  left: number;
+  right: number;
+  rest: string; // text of the line after the label
+}
+
+// Horizontal position of a character offset in the line text, interpolated within its item
+function offsetToX(line: LayoutLine, offset: number): number {
+  let start = 0;
+  for (const item of line.items) {
+    const text = item.text.trim();
+    const end = start + text.length;
+    if (offset <= end) {
+      const ratio = text.length ? (offset - start) / text.length : 0;
+      return item.x + item.width * Math.max(0, ratio);
+    }
+    start = end + 1;
+  }
+  const last = line.items[line.items.length - 1];
+  return last.x + last.width;
+}
+
+function findLabel(lines: LayoutLine[], label: RegExp): LabelMatch | undefined {
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    const match = line.text.match(label);
+    if (!match || match.index === undefined) continue;
+
+    const end = match.index + match[0].length;
+    return {
+      lineIndex,
+      left: offsetToX(line, match.index),
+      right: offsetToX(line, end),
+      rest: line.text.slice(end),
+    };
+  }
+  return undefined;
+}
+
+// Text on the label's line to the right of the label, without a leading colon
+export function valueRightOf(layout: PageLayout, label: RegExp): string {
+  const found = findLabel(buildLines(layout), label);
+  return found ? found.rest.replace(/^\s*:?\s*/, "").trim() : "";
+}
+
+// Text of the first line under the label that overlaps the label horizontally
+export function valueBelow(layout: PageLayout, label: RegExp): string {
+  const lines = buildLines(layout);
+  const found = findLabel(lines, label);
+  if (!found) return "";
+
+  for (const line of lines.slice(found.lineIndex + 1)) {
+    const overlapping = line.items.filter((item) =>
+      item.x < found.right && item.x + item.width > found.left,
+    );
+    if (overlapping.length > 0) return overlapping.map((item) => item.text.trim()).join(" ");
+  }
+  return "";
+}
+
+// Box around the first occurrence of `text` on the page, e.g. to point at an extracted value
+export function locateText(layout: PageLayout, text: string): BoundingBox | undefined {
+  const needle = text.replace(/\s+/g, " ").trim();
+  if (!needle) return undefined;
+
+  for (const line of buildLines(layout)) {
+    const index = line.text.indexOf(needle);
+    if (index === -1) continue;
+
+    const left = offsetToX(line, index);
+    const right = offsetToX(line, index + needle.length);
+    const height = Math.max(...line.items.map((item) => item.height));
+    return { x: left, y: line.y, width: right - left, height };
+  }
+  return undefined;
+}
+
+const NUMERIC_CELL = /^-?(?:Rs\.?\s*)?\d[\d,]*(?:\.\d+)?$/;
+
+interface Column {
+  left: number;
+  right: number;
+}
+
+const overlap = (column: Column, item: LayoutItem) =>
+  Math.min(column.right, item.x + item.width) - Math.max(column.left, item.x);
+
+// Column whose span overlaps the item most, or the nearest one when none overlaps
+function columnOf(columns: Column[], item: LayoutItem): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((column, index) => {
+    const score = overlap(column, item);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function toCells(columns: Column[], line: LayoutLine): string[] {
+  const cells = columns.map(() => "");
+  for (const item of line.items) {
+    const index = columnOf(columns, item);
+    cells[index] = [cells[index], item.text.trim()].filter(Boolean).join(" ");
+  }
+  return cells;
+}
+
+// Reads the table whose header line matches `header`. Columns are taken from the header
+// cells; lines up to the first one holding a number continue the (wrapped) header, and
+// the table ends at the first following line without any number.
+export function readTable(layout: PageLayout, header: RegExp, maxRows = 50): LayoutTable | undefined {
+  const lines = buildLines(layout);
+  const found = findLabel(lines, header);
+  if (!found) return undefined;
+
+  // Words of one header cell printed as separate items are less than a glyph apart
+  const columns: Column[] = [];
+  for (const item of lines[found.lineIndex].items) {
+    const previous = columns[columns.length - 1];
+    if (previous && item.x - previous.right < item.height) {
+      previous.right = item.x + item.width;
+    } else {
+      columns.push({ left: item.x, right: item.x + item.width });
+    }
+  }
+  const headerCells = toCells(columns, lines[found.lineIndex]);
+  const rows: string[][] = [];
+
+  for (const line of lines.slice(found.lineIndex + 1)) {
+    const cells = toCells(columns, line);
+    const hasNumber = cells.some((cell) => NUMERIC_CELL.test(cell.trim()));
+
+    if (rows.length === 0 && !hasNumber) {
+      cells.forEach((cell, index) => {
+        if (cell) headerCells[index] = `${headerCells[index]} ${cell}`.trim();
+      });
+      continue;
+    }
+    if (!hasNumber || rows.length >= maxRows) break;
+    rows.push(cells);
+  }
+
+  return { header: headerCells, rows };
+}
+
+// Cells of the column whose header matches `column`
+export function tableColumn(table: LayoutTable, column: RegExp): string[] {
+  const index = table.header.findIndex((cell) => column.test(cell));
+  return index === -1 ? [] : table.rows.map((row) => row[index] ?? "");
+}
@@ -0,0 +1,104 @@
+// Structural checks on the extracted PAN. A PAN is five letters, four digits and a letter;
+// the 4th letter is the holder type (P for an individual) and the 5th the initial of the
+// holder's surname. Values that pass the extraction pattern can still be TRACES'
+// "PANNOTAVBL" placeholder, an OCR misread or another employee's PAN, so each document
+// is rated valid, suspicious or invalid with the reasons behind it.
+
+import type { PathFields } from "./pathTemplates";
+
+export type PanValidationStatus = "valid" | "suspicious" | "invalid";
+
+export interface PanValidation {
+  status: PanValidationStatus;
+  reasons: string[];
+}
+
+// Written by TRACES when the deductor did not quote the employee's PAN
+export const PAN_NOT_AVAILABLE = "PANNOTAVBL";
+
+export const PAN_FORMAT = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+export const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: "individual",
+  C: "company",
+  H: "Hindu undivided family",
+  F: "firm",
+  A: "association of persons",
+  T: "trust",
+  B: "body of individuals",
+  L: "local authority",
+  J: "artificial juridical person",
+  G: "government",
+};
+
+// Characters OCR confuses, mapped to the letter or digit the PAN position requires
+const AS_DIGIT: Record<string, string> = { O: "0", D: "0", I: "1", L: "1", Z: "2", S: "5", G: "6", B: "8" };
+const AS_LETTER: Record<string, string> = { "0": "O", "1": "I", "2": "Z", "5": "S", "6": "G", "8": "B" };
+
+// The PAN with misread characters swapped for what each position allows, if that fixes it
+function ocrCorrection(pan: string): string | undefined {
+  if (pan.length !== 10) return undefined;
+  const corrected = pan
+    .split("")
+    .map((char, index) => (index >= 5 && index <= 8 ? AS_DIGIT[char] : AS_LETTER[char]) ?? char)
+    .join("");
+  return corrected !== pan && PAN_FORMAT.test(corrected) ? corrected : undefined;
+}
+
+const nameWords = (name: string) => name.replace(/[^A-Za-z\s]/g, " ").trim().split(/\s+/).filter(Boolean);
+
+// Reason to doubt the PAN when its 5th character is not the initial of the name's last word
+function checkSurname(pan: string, name: string, whose: string): string | undefined {
+  const words = nameWords(name);
+  if (words.length === 0) return undefined;
+
+  const initial = pan[4];
+  const surname = words[words.length - 1];
+  if (surname[0].toUpperCase() === initial) return undefined;
+  return `5th character "${initial}" does not match the surname initial of ${whose} "${name}"`;
+}
+
+// knownName is false when the employee name is a placeholder rather than a real name.
+// `folder` is what the upload's folders say about the employee, e.g. "Acme/Ann Lee_ABCDE1234F"
+// gives a PAN and a name.
+export function validatePan(
+  pan: string,
+  employeeName: string,
+  folder: Pick<PathFields, "pan" | "employee">,
+  knownName = true,
+): PanValidation {
+  const invalid: string[] = [];
+  const suspicious: string[] = [];
+  const value = pan.trim().toUpperCase();
+
+  if (value === PAN_NOT_AVAILABLE) {
+    return { status: "invalid", reasons: ["PAN not available (TRACES reported PANNOTAVBL)"] };
+  }
+  if (!PAN_FORMAT.test(value)) {
+    const corrected = ocrCorrection(value);
+    const reason = corrected
+      ? `"${pan}" is not a valid PAN; it may be an OCR misread of ${corrected}`
+      : `"${pan}" is not a valid PAN (expected five letters, four digits and a letter)`;
+    return { status: "invalid", reasons: [reason] };
+  }
+
+  const holderType = value[3];
+  if (holderType !== "P") {
+    invalid.push(PAN_HOLDER_TYPES[holderType]
+      ? `4th character "${holderType}" is a ${PAN_HOLDER_TYPES[holderType]} PAN, not an individual's`
+      : `4th character "${holderType}" is not a PAN holder type`);
+  } else {
+    const nameReason = knownName ? checkSurname(value, employeeName, "employee") : undefined;
+    if (nameReason) suspicious.push(nameReason);
+  }
+
+  if (folder.pan && folder.pan !== value) {
+    invalid.push(`PAN differs from ${folder.pan} in the employee folder name`);
+  } else if (!folder.pan && holderType === "P" && folder.employee && folder.employee !== employeeName) {
+    const folderReason = checkSurname(value, folder.employee, "folder");
+    if (folderReason) suspicious.push(folderReason);
+  }
+
+  const status: PanValidationStatus = invalid.length > 0 ? "invalid" : suspicious.length > 0 ? "suspicious" : "valid";
+  return { status, reasons: [...invalid, ...suspicious] };
+}
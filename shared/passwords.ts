@@ -0,0 +1,149 @@
+// Password templates for encrypted Form 16s. TRACES and most payroll tools derive the
+// password from employee details, e.g. lowercase PAN followed by the date of birth, so a
+// company can list the templates its vendor uses and every file is tried against them.
+
+import { z } from "zod";
+import type { PathFields } from "./pathTemplates";
+
+// Employee details a template can draw from
+export interface PasswordContext {
+  pan?: string;
+  dateOfBirth?: string; // yyyy-mm-dd
+  employeeName?: string;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const dobParts = (context: PasswordContext) => {
+  const match = context.dateOfBirth?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? { yyyy: match[1], mm: match[2], dd: match[3] } : undefined;
+};
+
+const firstName = (context: PasswordContext) =>
+  context.employeeName?.trim().split(/\s+/)[0]?.replace(/[^A-Za-z]/g, "");
+
+export const PASSWORD_TOKENS: Record<string, (context: PasswordContext) => string | undefined> = {
+  pan: (context) => context.pan,
+  pan_lower: (context) => context.pan?.toLowerCase(),
+  pan_upper: (context) => context.pan?.toUpperCase(),
+  dob_ddmmyyyy: (context) => {
+    const dob = dobParts(context);
+    return dob && `${dob.dd}${dob.mm}${dob.yyyy}`;
+  },
+  dob_ddmmyy: (context) => {
+    const dob = dobParts(context);
+    return dob && `${dob.dd}${dob.mm}${dob.yyyy.slice(2)}`;
+  },
+  dob_yyyymmdd: (context) => {
+    const dob = dobParts(context);
+    return dob && `${dob.yyyy}${dob.mm}${dob.dd}`;
+  },
+  dob_ddmmmyyyy: (context) => {
+    const dob = dobParts(context);
+    return dob && `${dob.dd}${MONTHS[Number(dob.mm) - 1]}${dob.yyyy}`;
+  },
+  name_first4_lower: (context) => firstName(context)?.slice(0, 4).toLowerCase() || undefined,
+  name_first4_upper: (context) => firstName(context)?.slice(0, 4).toUpperCase() || undefined,
+};
+
+const TOKEN_PATTERN = /\{([a-z0-9_]+)\}/g;
+
+const usesKnownTokens = (template: string) =>
+  Array.from(template.matchAll(TOKEN_PATTERN)).every((match) => match[1] in PASSWORD_TOKENS);
+
+export const passwordTemplateSchema = z
+  .string()
+  .min(1)
+  .refine(usesKnownTokens, `Unknown token; use ${Object.keys(PASSWORD_TOKENS).map((token) => `{${token}}`).join(", ")}`);
+
+// The password a template gives for an employee, or undefined when a detail it needs is unknown
+export function renderPasswordTemplate(template: string, context: PasswordContext): string | undefined {
+  let missing = false;
+  const password = template.replace(TOKEN_PATTERN, (_, token: string) => {
+    const value = PASSWORD_TOKENS[token]?.(context);
+    if (!value) missing = true;
+    return value ?? "";
+  });
+  return missing ? undefined : password;
+}
+
+// Distinct passwords to try, in template order, for every context that may describe the employee
+export function passwordCandidates(templates: string[], contexts: PasswordContext[]): string[] {
+  const candidates = templates.flatMap((template) =>
+    contexts.map((context) => renderPasswordTemplate(template, context)),
+  );
+  return Array.from(new Set(candidates.filter((password): password is string => Boolean(password))));
+}
+
+// Accepts dd/mm/yyyy, dd-mm-yyyy, dd.mm.yyyy, ddmmyyyy and yyyy-mm-dd
+export function parseDateOfBirth(value: string): string | undefined {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, "0")}-${iso[3].padStart(2, "0")}`;
+
+  const indian = text.match(/^(\d{1,2})[-/.]?(\d{1,2})[-/.]?(\d{4})$/);
+  if (indian) return `${indian[3]}-${indian[2].padStart(2, "0")}-${indian[1].padStart(2, "0")}`;
+  return undefined;
+}
+
+const PAN_IN_NAME = /(?<![A-Z0-9])([A-Z]{5}[0-9]{4}[A-Z])(?![A-Z0-9])/i;
+const DOB_IN_NAME = /(?<!\d)(\d{2}[-.]?\d{2}[-.]?\d{4})(?!\d)/;
+
+// Folder and file names often carry the PAN or date of birth, e.g. "Ann Lee_ABCDE1234F/Form16.pdf"
+export function contextFromPath(employeePath: string, fileName: string): PasswordContext {
+  const names = [...employeePath.split("/").slice(1), fileName.replace(/\.pdf$/i, "")].join("/");
+  const dob = names.match(DOB_IN_NAME)?.[1];
+  return {
+    pan: names.match(PAN_IN_NAME)?.[1].toUpperCase(),
+    dateOfBirth: dob ? parseDateOfBirth(dob) : undefined,
+    employeeName: employeePath.split("/").slice(1).pop()?.replace(/[_-]+/g, " ").trim() || undefined,
+  };
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z]+/g, " ").trim();
+
+// What the path says about the employee; a path template's PAN and name come first
+function pathContext(employeePath: string, fileName: string, pathFields?: PathFields): PasswordContext {
+  const fromPath = contextFromPath(employeePath, fileName);
+  return {
+    ...fromPath,
+    pan: pathFields?.pan ?? fromPath.pan,
+    employeeName: pathFields?.employee ?? fromPath.employeeName,
+  };
+}
+
+// Employee master rows that match the folder or file name by PAN or full name
+export function findEmployeeContexts<T extends PasswordContext>(
+  employees: T[],
+  employeePath: string,
+  fileName: string,
+  pathFields?: PathFields,
+): T[] {
+  const fromPath = pathContext(employeePath, fileName, pathFields);
+  const names = normalizeName(`${employeePath.split("/").slice(1).join(" ")} ${fromPath.employeeName ?? ""} ${fileName.replace(/\.pdf$/i, "")}`);
+
+  return employees.filter((employee) => {
+    if (fromPath.pan && employee.pan?.toUpperCase() === fromPath.pan) return true;
+    const name = employee.employeeName && normalizeName(employee.employeeName);
+    return Boolean(name && ` ${names} `.includes(` ${name} `));
+  });
+}
+
+// Passwords to try for one file: matching employee master rows first, then the path itself
+export function derivePasswords(
+  templates: string[],
+  employees: PasswordContext[],
+  employeePath: string,
+  fileName: string,
+  pathFields?: PathFields,
+): string[] {
+  return passwordCandidates(templates, [
+    ...findEmployeeContexts(employees, employeePath, fileName, pathFields),
+    pathContext(employeePath, fileName, pathFields),
+  ]);
+}
+
+// pdf.js (browser and Node builds) rejects with a PasswordException when a PDF is
+// encrypted and the password is missing or wrong
+export const isPasswordError = (error: unknown) =>
+  (error as { name?: string } | null)?.name === "PasswordException";
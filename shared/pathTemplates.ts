@@ -0,0 +1,128 @@
+// Clients lay out their Form 16 folders differently: `Company/Employee`, `Company/FY/
+// Employee`, `Company/Department/EmpCode_Name`, or every PDF in a folder named after the
+// PAN. A path template describes the employee path (the folders above each PDF) with
+// named placeholders, `*` for one folder to ignore and `**` for any number of them, and
+// is chosen per upload. Paths it does not match fall back to the original reading: the
+// first folder is the company and the last one the employee.
+
+import { z } from "zod";
+import { formatFinancialYear, parseFinancialYear } from "./yearValidation";
+
+export const PATH_PLACEHOLDERS = ["company", "fy", "empCode", "employee", "pan"] as const;
+export type PathPlaceholder = (typeof PATH_PLACEHOLDERS)[number];
+
+// What the folders say about a document's company and employee
+export interface PathFields {
+  company: string;
+  fy?: string; // formatted as 2024-25
+  empCode?: string;
+  employee?: string; // folder name with any PAN and separators removed
+  pan?: string;
+}
+
+export interface PathTemplate {
+  name: string;
+  pattern: string;
+}
+
+// Placeholders match within one folder name; PAN and FY only match values of their shape
+const PLACEHOLDER_PATTERNS: Record<PathPlaceholder, string> = {
+  company: "[^/]+?",
+  fy: "\\d{4}\\s*-\\s*(?:\\d{4}|\\d{2})",
+  empCode: "[^/]+?",
+  employee: "[^/]+?",
+  pan: "[A-Za-z]{5}[0-9]{4}[A-Za-z]",
+};
+
+export const DEFAULT_PATH_TEMPLATE = "{company}/**/{employee}";
+
+export const BUILT_IN_PATH_TEMPLATES: PathTemplate[] = [
+  { name: "Company / Employee", pattern: DEFAULT_PATH_TEMPLATE },
+  { name: "Company / FY / Employee", pattern: "{company}/{fy}/{employee}" },
+  { name: "Company / Department / EmpCode_Name", pattern: "{company}/*/{empCode}_{employee}" },
+  { name: "Folder per PAN", pattern: "**/{pan}" },
+];
+
+const TOKEN_PATTERN = /\{([A-Za-z]+)\}|\*\*\/|\/\*\*|\*/g;
+const PAN_IN_TEXT = /(?<![A-Z0-9])([A-Z]{5}[0-9]{4}[A-Z])(?![A-Z0-9])/i;
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, "");
+
+function compilePathTemplate(pattern: string): RegExp {
+  const template = trimSlashes(pattern.trim());
+  let source = "";
+  let last = 0;
+  for (const match of Array.from(template.matchAll(TOKEN_PATTERN))) {
+    const [token, name] = match;
+    source += escapeRegExp(template.slice(last, match.index));
+    if (name !== undefined) {
+      if (!PATH_PLACEHOLDERS.includes(name as PathPlaceholder)) throw new Error(`Unknown placeholder {${name}}`);
+      source += `(?<${name}>${PLACEHOLDER_PATTERNS[name as PathPlaceholder]})`;
+    } else if (token === "**/") {
+      source += "(?:[^/]+/)*";
+    } else if (token === "/**") {
+      source += "(?:/[^/]+)*";
+    } else {
+      source += "[^/]+";
+    }
+    last = match.index! + token.length;
+  }
+  source += escapeRegExp(template.slice(last));
+  return new RegExp(`^${source}$`, "i");
+}
+
+// Why a pattern cannot be used, or undefined when it can
+export function pathTemplateError(pattern: string): string | undefined {
+  if (!pattern.trim()) return "The path template is empty";
+  try {
+    compilePathTemplate(pattern);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.includes("Duplicate capture group") ? "Each placeholder can be used once" : message;
+  }
+  return undefined;
+}
+
+export const pathTemplateSchema = z.string().superRefine((pattern, ctx) => {
+  const error = pathTemplateError(pattern);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+// The placeholders a pattern captures from a path, or null when the path does not fit it
+export function matchPathTemplate(employeePath: string, pattern: string): Partial<Record<PathPlaceholder, string>> | null {
+  const match = trimSlashes(employeePath).match(compilePathTemplate(pattern));
+  if (!match) return null;
+  return Object.fromEntries(
+    Object.entries(match.groups ?? {}).filter(([, value]) => value !== undefined).map(([name, value]) => [name, value.trim()]),
+  );
+}
+
+// `companyName` is the one typed in for the upload, used when the template has no {company}
+export function resolvePathFields(
+  employeePath: string,
+  pattern = DEFAULT_PATH_TEMPLATE,
+  companyName?: string,
+): PathFields {
+  const segments = trimSlashes(employeePath).split("/").filter(Boolean);
+  const captured = matchPathTemplate(employeePath, pattern) ?? {
+    company: segments[0],
+    employee: segments.length > 1 ? segments[segments.length - 1] : undefined,
+  };
+
+  const pan = (captured.pan ?? `${captured.employee ?? ""} ${captured.empCode ?? ""}`.match(PAN_IN_TEXT)?.[1])?.toUpperCase();
+  const employee = captured.employee
+    ?.replace(new RegExp(PAN_IN_TEXT, "gi"), " ")
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const fy = captured.fy ? parseFinancialYear(captured.fy) : undefined;
+
+  return {
+    company: captured.company || companyName?.trim() || segments[0] || "",
+    fy: fy && formatFinancialYear(fy),
+    empCode: captured.empCode || undefined,
+    employee: employee || undefined,
+    pan,
+  };
+}
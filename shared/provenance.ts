@@ -0,0 +1,61 @@
+// Where each extracted header field came from and how far it can be trusted. Values
+// read from the PDF are kept apart from those guessed from the file or folder name
+// and from built-in defaults, so reviewers know which fields still need checking.
+
+import type { ProfileField } from "./extractionProfiles";
+import type { BoundingBox } from "./layout";
+
+export type FieldSource = "pdf-text" | "ocr" | "filename" | "folder" | "default" | "manual";
+
+export interface FieldProvenance {
+  source: FieldSource;
+  page?: number; // 1-based page of the source PDF
+  boundingBox?: BoundingBox;
+  rule?: string; // profile rule or fallback that produced the value
+  confidence: number; // 0 to 1
+}
+
+export type FieldProvenanceMap = Record<ProfileField, FieldProvenance>;
+
+export const FIELD_SOURCE_LABELS: Record<FieldSource, string> = {
+  "pdf-text": "PDF text",
+  "ocr": "OCR",
+  "filename": "File name",
+  "folder": "Folder name",
+  "default": "Default",
+  "manual": "Manual correction",
+};
+
+const SOURCE_CONFIDENCE: Record<FieldSource, number> = {
+  "pdf-text": 0.9,
+  "ocr": 0.7,
+  "filename": 0.4,
+  "folder": 0.3,
+  "default": 0,
+  "manual": 1, // typed in by a reviewer looking at the document
+};
+
+// Shape a correct value has; a match that does not fit is probably the wrong text
+const FIELD_FORMATS: Record<ProfileField, RegExp> = {
+  date: /^\d{1,2}[-/. ](?:[A-Za-z]{3}|\d{2})[-/. ]\d{4}$/,
+  employeeName: /^[A-Za-z][A-Za-z .'-]*$/,
+  employeePAN: /^[A-Z]{5}[0-9]{4}[A-Z]$/,
+  financialYear: /^\d{4}-\d{2}$/,
+  assessmentYear: /^\d{4}-\d{2}$/,
+};
+
+export function scoreConfidence(
+  field: ProfileField,
+  value: string,
+  source: FieldSource,
+  viaLayout = false,
+): number {
+  let score = SOURCE_CONFIDENCE[source];
+  if (score === 0) return 0;
+  if (viaLayout) score += 0.05;
+  if (!FIELD_FORMATS[field].test(value)) score -= 0.3;
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+export const isInferred = (provenance: FieldProvenance) =>
+  provenance.source === "filename" || provenance.source === "folder" || provenance.source === "default";
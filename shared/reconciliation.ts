@@ -0,0 +1,106 @@
+// TDS reconciliation between the two parts of a Form 16. The tax deducted over the
+// quarters in Part A should equal the net tax payable computed in Part B, and the
+// amounts paid or credited in Part A should add up to the gross salary in Part B.
+// Part A and Part B may arrive as one PDF or as separate files, so the parts of an
+// employee are paired by PAN and financial year.
+
+import type { PdfData } from "./form16";
+import { hasPartA, hasPartB } from "./documentClassifier";
+import { PAN_FORMAT } from "./panValidation";
+
+// A difference is accepted when it is within the larger of the two limits
+export interface ReconciliationTolerance {
+  absolute: number; // rupees
+  percent: number; // of the Part B figure
+}
+
+export const DEFAULT_TOLERANCE: ReconciliationTolerance = { absolute: 1, percent: 0 };
+
+export type ReconciliationStatus = "matched" | "mismatched" | "incomplete";
+
+export interface ReconciliationCheck {
+  label: string;
+  partA: number;
+  partB: number;
+  difference: number; // Part A minus Part B
+  withinTolerance: boolean;
+}
+
+export interface ReconciliationRow {
+  key: string; // PAN|FY, or the batch position when the PAN is unusable
+  employeeName: string;
+  employeePAN: string;
+  financialYear: string;
+  indices: number[]; // batch positions of the documents that were paired
+  checks: ReconciliationCheck[];
+  status: ReconciliationStatus;
+}
+
+type ReconciliationFields = Pick<
+  PdfData,
+  "employeeName" | "employeePAN" | "financialYear" | "documentType" | "partA" | "partB"
+>;
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+function check(label: string, partA: number, partB: number, tolerance: ReconciliationTolerance): ReconciliationCheck {
+  const difference = round2(partA - partB);
+  const allowed = Math.max(tolerance.absolute, (Math.abs(partB) * tolerance.percent) / 100);
+  return { label, partA, partB, difference, withinTolerance: Math.abs(difference) <= allowed };
+}
+
+// Quarter rows are summed when the table had no total row
+const taxDeducted = (partA: PdfData["partA"]) =>
+  partA.totalTaxDeducted || round2(partA.quarters.reduce((sum, quarter) => sum + quarter.taxDeducted, 0));
+
+const amountPaid = (partA: PdfData["partA"]) =>
+  partA.totalAmountPaid || round2(partA.quarters.reduce((sum, quarter) => sum + quarter.amountPaid, 0));
+
+export function reconcile(
+  partA: PdfData["partA"],
+  partB: PdfData["partB"],
+  tolerance: ReconciliationTolerance = DEFAULT_TOLERANCE,
+): ReconciliationCheck[] {
+  return [
+    check("Tax deducted vs net tax payable", taxDeducted(partA), partB.netTaxPayable, tolerance),
+    check("Amount paid/credited vs gross salary", amountPaid(partA), partB.grossSalary, tolerance),
+  ];
+}
+
+// One row per employee and financial year; employees missing a part are incomplete
+export function reconcileBatch(
+  documents: ReconciliationFields[],
+  tolerance: ReconciliationTolerance = DEFAULT_TOLERANCE,
+): ReconciliationRow[] {
+  const byEmployee = new Map<string, number[]>();
+  documents.forEach((data, index) => {
+    if (!hasPartA(data.documentType) && !hasPartB(data.documentType)) return;
+    const key = PAN_FORMAT.test(data.employeePAN) ? `${data.employeePAN}|${data.financialYear}` : `#${index}`;
+    byEmployee.set(key, [...(byEmployee.get(key) ?? []), index]);
+  });
+
+  return Array.from(byEmployee.entries()).map(([key, indices]) => {
+    const first = documents[indices[0]];
+    const withPartA = indices.find((index) => hasPartA(documents[index].documentType));
+    const withPartB = indices.find((index) => hasPartB(documents[index].documentType));
+    const checks = withPartA !== undefined && withPartB !== undefined
+      ? reconcile(documents[withPartA].partA, documents[withPartB].partB, tolerance)
+      : [];
+
+    // Nothing to compare when a part printed no figures at all
+    const compared = checks.filter((item) => item.partA !== 0 || item.partB !== 0);
+    const status: ReconciliationStatus = compared.length === 0
+      ? "incomplete"
+      : compared.every((item) => item.withinTolerance) ? "matched" : "mismatched";
+
+    return {
+      key,
+      employeeName: first.employeeName,
+      employeePAN: first.employeePAN,
+      financialYear: first.financialYear,
+      indices,
+      checks,
+      status,
+    };
+  });
+}
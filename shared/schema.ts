@@ -1,6 +1,14 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, real, timestamp, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { batchReviewSchema, documentDetailsSchema, pdfDataSchema, type BatchReview, type DocumentDetails } from "./batches";
+import { fieldDefinitionSchema, type FieldDefinition } from "./extractionProfiles";
+import { passwordTemplateSchema } from "./passwords";
+import { regimeRulesSchema, type RegimeRules } from "./taxRules";
+import { financialYearSchema } from "./yearValidation";
+import type { PdfData } from "./form16";
+import type { InboxProgress } from "./inbox";
+import type { BoundingBox } from "./layout";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +23,278 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+export const extractionProfiles = pgTable("extraction_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull().default(""),
+  fields: jsonb("fields").$type<FieldDefinition[]>().notNull(),
+  builtIn: boolean("built_in").notNull().default(false),
+});
+
+export const insertExtractionProfileSchema = createInsertSchema(extractionProfiles, {
+  name: (schema) => schema.min(1),
+  fields: z.array(fieldDefinitionSchema).min(1),
+}).pick({
+  name: true,
+  description: true,
+  fields: true,
+});
+
+export type InsertExtractionProfile = z.infer<typeof insertExtractionProfileSchema>;
+export type ExtractionProfile = typeof extractionProfiles.$inferSelect;
+
+// Which profile to use for each company folder
+export const companyProfiles = pgTable("company_profiles", {
+  companyName: text("company_name").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => extractionProfiles.id),
+});
+
+export const insertCompanyProfileSchema = createInsertSchema(companyProfiles, {
+  companyName: (schema) => schema.min(1),
+});
+
+export type InsertCompanyProfile = z.infer<typeof insertCompanyProfileSchema>;
+export type CompanyProfile = typeof companyProfiles.$inferSelect;
+
+// Password templates tried on encrypted PDFs of each company folder
+export const companyPasswordTemplates = pgTable("company_password_templates", {
+  companyName: text("company_name").primaryKey(),
+  templates: jsonb("templates").$type<string[]>().notNull(),
+});
+
+export const insertCompanyPasswordTemplatesSchema = createInsertSchema(companyPasswordTemplates, {
+  companyName: (schema) => schema.min(1),
+  templates: z.array(passwordTemplateSchema),
+});
+
+export type InsertCompanyPasswordTemplates = z.infer<typeof insertCompanyPasswordTemplatesSchema>;
+export type CompanyPasswordTemplates = typeof companyPasswordTemplates.$inferSelect;
+
+// Employee master used to fill password templates (PAN, date of birth)
+export const employees = pgTable("employees", {
+  id: serial("id").primaryKey(),
+  companyName: text("company_name").notNull(),
+  employeeName: text("employee_name").notNull(),
+  pan: text("pan").notNull().default(""),
+  dateOfBirth: text("date_of_birth").notNull().default(""), // yyyy-mm-dd
+});
+
+export const insertEmployeeSchema = createInsertSchema(employees, {
+  employeeName: (schema) => schema.min(1),
+  pan: (schema) => schema.regex(/^([A-Z]{5}[0-9]{4}[A-Z])?$/, "PAN must look like ABCDE1234F").default(""),
+  dateOfBirth: (schema) => schema.regex(/^(\d{4}-\d{2}-\d{2})?$/, "Date of birth must be yyyy-mm-dd").default(""),
+}).pick({
+  employeeName: true,
+  pan: true,
+  dateOfBirth: true,
+});
+
+export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
+export type Employee = typeof employees.$inferSelect;
+
+// Slabs, rebate, surcharge and cess per assessment year for the tax recomputation
+export const taxRuleSets = pgTable("tax_rule_sets", {
+  assessmentYear: text("assessment_year").primaryKey(),
+  old: jsonb("old").$type<RegimeRules>().notNull(),
+  new: jsonb("new").$type<RegimeRules>().notNull(),
+  builtIn: boolean("built_in").notNull().default(false),
+});
+
+export const insertTaxRuleSetSchema = createInsertSchema(taxRuleSets, {
+  assessmentYear: financialYearSchema,
+  old: regimeRulesSchema,
+  new: regimeRulesSchema,
+}).pick({
+  assessmentYear: true,
+  old: true,
+  new: true,
+});
+
+export type InsertTaxRuleSet = z.infer<typeof insertTaxRuleSetSchema>;
+export type TaxRuleSetRecord = typeof taxRuleSets.$inferSelect;
+
+// A batch of Form 16s worked on in the upload page, with the reviewer's decisions, so it
+// can be reopened after a refresh. Batches extracted from the watched inbox also carry
+// the inbox's progress through their files.
+export const batches = pgTable("batches", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  review: jsonb("review").$type<BatchReview>().notNull(),
+  inbox: jsonb("inbox").$type<InboxProgress>(),
+  createdAt: timestamp("created_at", { mode: "string", withTimezone: true, precision: 3 }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: "string", withTimezone: true, precision: 3 }).notNull().defaultNow(),
+});
+
+export const insertBatchSchema = createInsertSchema(batches, {
+  name: (schema) => schema.min(1),
+  review: batchReviewSchema,
+}).pick({
+  name: true,
+  review: true,
+});
+
+export type InsertBatch = z.infer<typeof insertBatchSchema>;
+export type Batch = typeof batches.$inferSelect;
+
+// A Form 16 accepted into a batch. Header fields and statuses are columns so documents
+// can be searched; the rest of the extracted data is kept as JSON.
+export const documents = pgTable("documents", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => batches.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // order in the batch, which duplicate resolutions refer to
+  fileName: text("file_name").notNull(),
+  fileContent: text("file_content").notNull(), // base64 PDF
+  employeePath: text("employee_path").notNull(),
+  companyName: text("company_name").notNull(),
+  date: text("date").notNull(),
+  employeeName: text("employee_name").notNull(),
+  employeePAN: text("employee_pan").notNull(),
+  financialYear: text("financial_year").notNull(),
+  assessmentYear: text("assessment_year").notNull(),
+  panStatus: text("pan_status", { enum: ["valid", "suspicious", "invalid"] }).notNull(),
+  panReasons: jsonb("pan_reasons").$type<string[]>().notNull(),
+  uploadStatus: text("upload_status", { enum: ["pending", "uploading", "success", "error"] }).notNull().default("pending"),
+  uploadId: text("upload_id"),
+  contentHash: text("content_hash"),
+  details: jsonb("details").$type<DocumentDetails>().notNull(),
+  createdAt: timestamp("created_at", { mode: "string", withTimezone: true, precision: 3 }).notNull().defaultNow(),
+});
+
+export const insertBatchDocumentSchema = createInsertSchema(documents, {
+  fileName: (schema) => schema.min(1),
+  panReasons: z.array(z.string()),
+  details: documentDetailsSchema,
+}).pick({
+  position: true,
+  fileName: true,
+  fileContent: true,
+  employeePath: true,
+  companyName: true,
+  date: true,
+  employeeName: true,
+  employeePAN: true,
+  financialYear: true,
+  assessmentYear: true,
+  panStatus: true,
+  panReasons: true,
+  uploadStatus: true,
+  uploadId: true,
+  contentHash: true,
+  details: true,
+});
+
+export type InsertBatchDocument = z.infer<typeof insertBatchDocumentSchema>;
+export type BatchDocument = typeof documents.$inferSelect;
+
+// Where each header field of a document was read, and how far it can be trusted
+export const extractedFields = pgTable("extracted_fields", {
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  field: text("field", { enum: ["date", "employeeName", "employeePAN", "financialYear", "assessmentYear"] }).notNull(),
+  source: text("source", { enum: ["pdf-text", "ocr", "filename", "folder", "default", "manual"] }).notNull(),
+  page: integer("page"),
+  boundingBox: jsonb("bounding_box").$type<BoundingBox>(),
+  rule: text("rule"),
+  confidence: real("confidence").notNull(),
+}, (table) => [primaryKey({ columns: [table.documentId, table.field] })]);
+
+export const insertExtractedFieldSchema = createInsertSchema(extractedFields, {
+  confidence: (schema) => schema.min(0).max(1),
+  boundingBox: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).nullish(),
+}).pick({
+  field: true,
+  source: true,
+  page: true,
+  boundingBox: true,
+  rule: true,
+  confidence: true,
+});
+
+export type InsertExtractedField = z.infer<typeof insertExtractedFieldSchema>;
+export type ExtractedField = typeof extractedFields.$inferSelect;
+
+// Files of a batch that did not become documents: locked PDFs, invalid PANs waiting for a
+// correction, PDFs that are not a Form 16 and archive entries that could not be read
+export const failures = pgTable("failures", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => batches.id, { onDelete: "cascade" }),
+  reason: text("reason", { enum: ["pan", "decrypt", "unclassified", "skipped"] }).notNull(),
+  details: text("details").notNull().default(""),
+  fileName: text("file_name").notNull(),
+  employeePath: text("employee_path").notNull(),
+  employeeName: text("employee_name").notNull().default(""),
+  companyName: text("company_name").notNull(),
+  extractedText: text("extracted_text").notNull().default(""),
+  data: jsonb("data").$type<PdfData>(), // extracted fields of a PAN failure, for the correction
+  fileContent: text("file_content"), // base64 PDF of a PAN failure
+  createdAt: timestamp("created_at", { mode: "string", withTimezone: true, precision: 3 }).notNull().defaultNow(),
+});
+
+export const insertBatchFailureSchema = createInsertSchema(failures, {
+  fileName: (schema) => schema.min(1),
+  data: pdfDataSchema.nullish(),
+}).pick({
+  reason: true,
+  details: true,
+  fileName: true,
+  employeePath: true,
+  employeeName: true,
+  companyName: true,
+  extractedText: true,
+  data: true,
+  fileContent: true,
+});
+
+export type InsertBatchFailure = z.infer<typeof insertBatchFailureSchema>;
+export type BatchFailure = typeof failures.$inferSelect;
+
+// Every upload of a document to the Form 16 API, successful or not
+export const uploadAttempts = pgTable("upload_attempts", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  status: text("status", { enum: ["success", "error"] }).notNull(),
+  uploadId: text("upload_id"),
+  message: text("message").notNull().default(""),
+  attemptedAt: timestamp("attempted_at", { mode: "string", withTimezone: true, precision: 3 }).notNull().defaultNow(),
+});
+
+export const insertUploadAttemptSchema = createInsertSchema(uploadAttempts).pick({
+  documentId: true,
+  status: true,
+  uploadId: true,
+  message: true,
+});
+
+export type InsertUploadAttempt = z.infer<typeof insertUploadAttemptSchema>;
+export type UploadAttempt = typeof uploadAttempts.$inferSelect;
+
+// A DSC signature applied to a document, with the signed PDF
+export const signatures = pgTable("signatures", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  signedBy: text("signed_by").notNull(),
+  signedAt: timestamp("signed_at", { mode: "string", withTimezone: true, precision: 3 }).notNull(),
+  reason: text("reason").notNull().default(""),
+  location: text("location").notNull().default(""),
+  certificateThumbprint: text("certificate_thumbprint").notNull(),
+  isValid: boolean("is_valid").notNull(),
+  fileName: text("file_name").notNull(),
+  fileContent: text("file_content").notNull(), // base64 signed PDF
+});
+
+export const insertSignatureSchema = createInsertSchema(signatures, {
+  fileName: (schema) => schema.min(1),
+}).pick({
+  documentId: true,
+  signedBy: true,
+  signedAt: true,
+  reason: true,
+  location: true,
+  certificateThumbprint: true,
+  isValid: true,
+  fileName: true,
+  fileContent: true,
+});
+
+export type InsertSignature = z.infer<typeof insertSignatureSchema>;
+export type Signature = typeof signatures.$inferSelect;
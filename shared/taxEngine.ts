@@ -0,0 +1,180 @@
+// Independent recomputation of the tax in Form 16 Part B. Taxable income is rebuilt from
+// the salary figures under each regime's rules, tax is computed from the slabs of the
+// document's assessment year, and the employer's printed figures are compared with the
+// result for the regime the employer applied.
+
+import type { PdfData, TaxRegime } from "./form16";
+import { hasPartB } from "./documentClassifier";
+import { parseFinancialYear } from "./yearValidation";
+import type { RegimeRules, TaxRuleSet, TaxSlab } from "./taxRules";
+
+export type Regime = "old" | "new";
+
+export interface TaxComputation {
+  regime: Regime;
+  taxableIncome: number;
+  taxOnIncome: number;
+  rebate87A: number;
+  surcharge: number;
+  cess: number;
+  totalTax: number; // before relief under section 89
+}
+
+export interface TaxDiscrepancy {
+  label: string;
+  printed: number;
+  computed: number;
+  difference: number; // printed minus computed
+}
+
+export type TaxRecomputationStatus = "matched" | "discrepancy" | "no-rules" | "incomplete";
+
+export interface TaxRecomputation {
+  assessmentYear: string;
+  regime?: Regime; // regime compared with the printed figures
+  regimeAssumed: boolean; // Part B did not say which regime the employer applied
+  computed: Partial<Record<Regime, TaxComputation>>;
+  discrepancies: TaxDiscrepancy[];
+  status: TaxRecomputationStatus;
+}
+
+type PartB = PdfData["partB"];
+
+// Printed figures are rounded to the rupee and tax to the nearest ten (section 288B)
+export const DEFAULT_TAX_TOLERANCE = 10;
+
+const roundRupee = (amount: number) => Math.round(amount);
+const roundToTen = (amount: number) => Math.round(amount / 10) * 10;
+
+export function slabTax(income: number, slabs: TaxSlab[]): number {
+  let tax = 0;
+  let lower = 0;
+  for (const slab of slabs) {
+    const upper = slab.upTo ?? Infinity;
+    if (income > lower) tax += ((Math.min(income, upper) - lower) * slab.rate) / 100;
+    lower = upper;
+  }
+  return tax;
+}
+
+// Surcharge with marginal relief: crossing a threshold may not cost more than the income above it
+function surchargeFor(income: number, tax: number, rules: RegimeRules): number {
+  const bands = [...rules.surcharge].sort((a, b) => a.above - b.above);
+  const index = bands.map((band) => income > band.above).lastIndexOf(true);
+  if (index === -1) return 0;
+
+  const band = bands[index];
+  const previousRate = index > 0 ? bands[index - 1].rate : 0;
+  const taxAtThreshold = slabTax(band.above, rules.slabs) * (1 + previousRate / 100);
+  const relievedSurcharge = taxAtThreshold + (income - band.above) - tax;
+  return Math.max(0, Math.min((tax * band.rate) / 100, relievedSurcharge));
+}
+
+export function computeTax(taxableIncome: number, rules: RegimeRules, regime: Regime): TaxComputation {
+  const taxOnIncome = slabTax(taxableIncome, rules.slabs);
+
+  const { incomeLimit, maxRebate, marginalRelief } = rules.rebate87A;
+  let rebate87A = 0;
+  if (taxableIncome <= incomeLimit) {
+    rebate87A = Math.min(taxOnIncome, maxRebate);
+  } else if (marginalRelief) {
+    rebate87A = Math.max(0, taxOnIncome - (taxableIncome - incomeLimit));
+  }
+
+  const taxAfterRebate = taxOnIncome - rebate87A;
+  const surcharge = surchargeFor(taxableIncome, taxAfterRebate, rules);
+  const cess = ((taxAfterRebate + surcharge) * rules.cessRate) / 100;
+
+  return {
+    regime,
+    taxableIncome,
+    taxOnIncome: roundRupee(taxOnIncome),
+    rebate87A: roundRupee(rebate87A),
+    surcharge: roundRupee(surcharge),
+    cess: roundRupee(cess),
+    totalTax: roundToTen(taxAfterRebate + surcharge + cess),
+  };
+}
+
+// Salary less what the regime allows, plus any other income the employee declared
+export function taxableIncomeUnder(partB: PartB, rules: RegimeRules): number {
+  const exemptions = rules.allowsExemptions ? partB.section10Exemptions + partB.professionalTax : 0;
+  const standardDeduction = Math.min(rules.standardDeduction, partB.grossSalary);
+  const salaryIncome = Math.max(0, partB.grossSalary - exemptions - standardDeduction);
+
+  const otherIncome = partB.grossTotalIncome > 0 && partB.incomeChargeableUnderSalaries > 0
+    ? Math.max(0, partB.grossTotalIncome - partB.incomeChargeableUnderSalaries)
+    : 0;
+
+  const allowed = rules.allowedDeductions;
+  const deductions = allowed === "all"
+    ? partB.totalChapterVIA
+    : partB.chapterVIA
+      .filter((entry) => allowed.includes(entry.section))
+      .reduce((sum, entry) => sum + entry.deductibleAmount, 0);
+
+  // Total income is rounded to the nearest ten rupees (section 288A)
+  return roundToTen(Math.max(0, salaryIncome + otherIncome - deductions));
+}
+
+export function findTaxRules(ruleSets: TaxRuleSet[], assessmentYear: string): TaxRuleSet | undefined {
+  const year = parseFinancialYear(assessmentYear);
+  return year && ruleSets.find((ruleSet) => parseFinancialYear(ruleSet.assessmentYear)?.start === year.start);
+}
+
+function compare(printed: PartB, computed: TaxComputation, tolerance: number): TaxDiscrepancy[] {
+  const pairs: [string, number, number][] = [
+    ["Total taxable income", printed.totalTaxableIncome, computed.taxableIncome],
+    ["Tax on total income", printed.taxOnIncome, computed.taxOnIncome],
+    ["Rebate u/s 87A", printed.rebate87A, computed.rebate87A],
+    ["Surcharge", printed.surcharge, computed.surcharge],
+    ["Health & education cess", printed.cess, computed.cess],
+    ["Net tax payable", printed.netTaxPayable, Math.max(0, computed.totalTax - printed.relief89)],
+  ];
+  return pairs
+    .map(([label, printedAmount, computedAmount]) => ({
+      label,
+      printed: printedAmount,
+      computed: computedAmount,
+      difference: roundRupee(printedAmount - computedAmount),
+    }))
+    .filter((item) => Math.abs(item.difference) > tolerance);
+}
+
+// When Part B does not name the regime, the one closest to the printed net tax is assumed
+export function recomputeTax(
+  data: Pick<PdfData, "assessmentYear" | "documentType" | "partB">,
+  ruleSets: TaxRuleSet[],
+  tolerance = DEFAULT_TAX_TOLERANCE,
+): TaxRecomputation {
+  const base = { assessmentYear: data.assessmentYear, regimeAssumed: false, computed: {}, discrepancies: [] };
+  const partB = data.partB;
+  if (!hasPartB(data.documentType) || (partB.grossSalary === 0 && partB.totalTaxableIncome === 0)) {
+    return { ...base, status: "incomplete" };
+  }
+
+  const ruleSet = findTaxRules(ruleSets, data.assessmentYear);
+  if (!ruleSet) return { ...base, status: "no-rules" };
+
+  const computed: Record<Regime, TaxComputation> = {
+    old: computeTax(taxableIncomeUnder(partB, ruleSet.old), ruleSet.old, "old"),
+    new: computeTax(taxableIncomeUnder(partB, ruleSet.new), ruleSet.new, "new"),
+  };
+
+  const printedRegime: TaxRegime = partB.taxRegime;
+  const regime: Regime = printedRegime !== "unknown"
+    ? printedRegime
+    : Math.abs(computed.old.totalTax - partB.netTaxPayable) < Math.abs(computed.new.totalTax - partB.netTaxPayable)
+      ? "old"
+      : "new";
+
+  const discrepancies = compare(partB, computed[regime], tolerance);
+  return {
+    assessmentYear: data.assessmentYear,
+    regime,
+    regimeAssumed: printedRegime === "unknown",
+    computed,
+    discrepancies,
+    status: discrepancies.length > 0 ? "discrepancy" : "matched",
+  };
+}
@@ -0,0 +1,159 @@
+// Income-tax rules for salaried individuals below 60, one rule set per assessment year
+// with the old regime and the section 115BAC new regime. The rules are plain data: a
+// new budget is added as another rule set (through /api/tax-rules or this list) and
+// the engine in taxEngine.ts needs no change.
+
+import { z } from "zod";
+import { financialYearSchema } from "./yearValidation";
+
+// Income up to `upTo` (the rest of the income when null) is taxed at `rate` percent
+export const taxSlabSchema = z.object({
+  upTo: z.number().positive().nullable(),
+  rate: z.number().min(0).max(100),
+});
+
+// Surcharge at `rate` percent of tax once income exceeds `above`
+export const surchargeBandSchema = z.object({
+  above: z.number().positive(),
+  rate: z.number().min(0).max(100),
+});
+
+export const regimeRulesSchema = z.object({
+  slabs: z.array(taxSlabSchema).min(1).refine(
+    (slabs) => slabs[slabs.length - 1].upTo === null,
+    "The last slab must have no upper limit",
+  ),
+  standardDeduction: z.number().min(0),
+  rebate87A: z.object({
+    incomeLimit: z.number().min(0),
+    maxRebate: z.number().min(0),
+    // Income just above the limit pays no more tax than the income above the limit
+    marginalRelief: z.boolean(),
+  }),
+  surcharge: z.array(surchargeBandSchema),
+  cessRate: z.number().min(0).max(100),
+  // Chapter VI-A sections still deductible under this regime, e.g. 80CCD(2) in the new one
+  allowedDeductions: z.union([z.literal("all"), z.array(z.string())]),
+  allowsExemptions: z.boolean(), // section 10 allowances and professional tax
+});
+
+export const taxRuleSetSchema = z.object({
+  assessmentYear: financialYearSchema,
+  old: regimeRulesSchema,
+  new: regimeRulesSchema,
+});
+
+export type TaxSlab = z.infer<typeof taxSlabSchema>;
+export type RegimeRules = z.infer<typeof regimeRulesSchema>;
+export type TaxRuleSet = z.infer<typeof taxRuleSetSchema>;
+
+const LAKH = 100000;
+const CRORE = 100 * LAKH;
+
+const OLD_REGIME: RegimeRules = {
+  slabs: [
+    { upTo: 2.5 * LAKH, rate: 0 },
+    { upTo: 5 * LAKH, rate: 5 },
+    { upTo: 10 * LAKH, rate: 20 },
+    { upTo: null, rate: 30 },
+  ],
+  standardDeduction: 50000,
+  rebate87A: { incomeLimit: 5 * LAKH, maxRebate: 12500, marginalRelief: false },
+  surcharge: [
+    { above: 50 * LAKH, rate: 10 },
+    { above: 1 * CRORE, rate: 15 },
+    { above: 2 * CRORE, rate: 25 },
+    { above: 5 * CRORE, rate: 37 },
+  ],
+  cessRate: 4,
+  allowedDeductions: "all",
+  allowsExemptions: true,
+};
+
+// From AY 2024-25 the new regime caps surcharge at 25%
+const NEW_REGIME_SURCHARGE = OLD_REGIME.surcharge.slice(0, 3);
+
+export const BUILT_IN_TAX_RULES: TaxRuleSet[] = [
+  {
+    assessmentYear: "2023-24",
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { upTo: 2.5 * LAKH, rate: 0 },
+        { upTo: 5 * LAKH, rate: 5 },
+        { upTo: 7.5 * LAKH, rate: 10 },
+        { upTo: 10 * LAKH, rate: 15 },
+        { upTo: 12.5 * LAKH, rate: 20 },
+        { upTo: 15 * LAKH, rate: 25 },
+        { upTo: null, rate: 30 },
+      ],
+      standardDeduction: 0,
+      rebate87A: { incomeLimit: 5 * LAKH, maxRebate: 12500, marginalRelief: false },
+      surcharge: OLD_REGIME.surcharge,
+      cessRate: 4,
+      allowedDeductions: ["80CCD(2)"],
+      allowsExemptions: false,
+    },
+  },
+  {
+    assessmentYear: "2024-25",
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { upTo: 3 * LAKH, rate: 0 },
+        { upTo: 6 * LAKH, rate: 5 },
+        { upTo: 9 * LAKH, rate: 10 },
+        { upTo: 12 * LAKH, rate: 15 },
+        { upTo: 15 * LAKH, rate: 20 },
+        { upTo: null, rate: 30 },
+      ],
+      standardDeduction: 50000,
+      rebate87A: { incomeLimit: 7 * LAKH, maxRebate: 25000, marginalRelief: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+      cessRate: 4,
+      allowedDeductions: ["80CCD(2)"],
+      allowsExemptions: false,
+    },
+  },
+  {
+    assessmentYear: "2025-26",
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { upTo: 3 * LAKH, rate: 0 },
+        { upTo: 7 * LAKH, rate: 5 },
+        { upTo: 10 * LAKH, rate: 10 },
+        { upTo: 12 * LAKH, rate: 15 },
+        { upTo: 15 * LAKH, rate: 20 },
+        { upTo: null, rate: 30 },
+      ],
+      standardDeduction: 75000,
+      rebate87A: { incomeLimit: 7 * LAKH, maxRebate: 25000, marginalRelief: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+      cessRate: 4,
+      allowedDeductions: ["80CCD(2)"],
+      allowsExemptions: false,
+    },
+  },
+  {
+    assessmentYear: "2026-27",
+    old: OLD_REGIME,
+    new: {
+      slabs: [
+        { upTo: 4 * LAKH, rate: 0 },
+        { upTo: 8 * LAKH, rate: 5 },
+        { upTo: 12 * LAKH, rate: 10 },
+        { upTo: 16 * LAKH, rate: 15 },
+        { upTo: 20 * LAKH, rate: 20 },
+        { upTo: 24 * LAKH, rate: 25 },
+        { upTo: null, rate: 30 },
+      ],
+      standardDeduction: 75000,
+      rebate87A: { incomeLimit: 12 * LAKH, maxRebate: 60000, marginalRelief: true },
+      surcharge: NEW_REGIME_SURCHARGE,
+      cessRate: 4,
+      allowedDeductions: ["80CCD(2)"],
+      allowsExemptions: false,
+    },
+  },
+];
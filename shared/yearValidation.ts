@@ -0,0 +1,125 @@
+// Financial year checks. A Form 16 for FY 2024-25 (1 April 2024 to 31 March 2025) is for
+// AY 2025-26, is issued after the year ends and covers employment within that year. The
+// FY and AY fall back to defaults when the document does not state them, so those are
+// flagged too, as are documents outside the year a batch is expected to cover.
+
+import { z } from "zod";
+import type { PdfData } from "./form16";
+import type { PanValidation } from "./panValidation";
+
+// Same valid / suspicious / invalid rating and reasons as the PAN checks
+export type YearValidation = PanValidation;
+
+export interface FinancialYear {
+  start: number; // calendar year of 1 April
+  end: number; // calendar year of 31 March
+}
+
+// "2024-25" or "2024-2025"
+export function parseFinancialYear(value: string): FinancialYear | undefined {
+  const match = value.trim().match(/^(\d{4})\s*-\s*(\d{2}|\d{4})$/);
+  if (!match) return undefined;
+
+  const start = Number(match[1]);
+  const end = match[2].length === 2 ? Math.floor(start / 100) * 100 + Number(match[2]) : Number(match[2]);
+  // 1999-00 crosses a century
+  const adjustedEnd = end < start ? end + 100 : end;
+  return adjustedEnd === start + 1 ? { start, end: adjustedEnd } : undefined;
+}
+
+export const formatFinancialYear = (year: FinancialYear) => `${year.start}-${String(year.end).slice(2)}`;
+
+export const financialYearSchema = z
+  .string()
+  .refine((value) => parseFinancialYear(value) !== undefined, "Financial year must look like 2024-25");
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// dd-Mon-yyyy or dd/mm/yyyy (also with "-", "." or " " separators), as a UTC date
+export function parseDocumentDate(value: string): Date | undefined {
+  const match = value.trim().match(/^(\d{1,2})[-/. ]([A-Za-z]{3}|\d{1,2})[-/. ](\d{4})$/);
+  if (!match) return undefined;
+
+  const month = /\d/.test(match[2]) ? Number(match[2]) - 1 : MONTHS.indexOf(match[2].toLowerCase());
+  const day = Number(match[1]);
+  const date = new Date(Date.UTC(Number(match[3]), month, day));
+  return month >= 0 && date.getUTCMonth() === month && date.getUTCDate() === day ? date : undefined;
+}
+
+const yearStart = (year: FinancialYear) => new Date(Date.UTC(year.start, 3, 1));
+const yearEnd = (year: FinancialYear) => new Date(Date.UTC(year.end, 2, 31));
+
+type YearFields = Pick<
+  PdfData,
+  "date" | "financialYear" | "assessmentYear" | "provenance" | "partA"
+> & Partial<Pick<PdfData, "pathFields">>;
+
+// expectedFinancialYear is the year the batch is meant to cover; mismatches are invalid
+export function validateYears(data: YearFields, expectedFinancialYear?: string): YearValidation {
+  const invalid: string[] = [];
+  const suspicious: string[] = [];
+
+  if (data.provenance.financialYear.source === "default") {
+    suspicious.push(`Financial year not found in the document; ${data.financialYear} is a default`);
+  }
+  if (data.provenance.assessmentYear.source === "default") {
+    suspicious.push(`Assessment year not found in the document; ${data.assessmentYear} is a default`);
+  }
+
+  const financialYear = parseFinancialYear(data.financialYear);
+  if (!financialYear) {
+    return { status: "invalid", reasons: [`"${data.financialYear}" is not a financial year`, ...suspicious] };
+  }
+
+  const assessmentYear = parseFinancialYear(data.assessmentYear);
+  if (!assessmentYear || assessmentYear.start !== financialYear.end) {
+    const expected = formatFinancialYear({ start: financialYear.end, end: financialYear.end + 1 });
+    invalid.push(`Assessment year ${data.assessmentYear} does not follow financial year ${data.financialYear} (expected ${expected})`);
+  }
+
+  const expected = expectedFinancialYear ? parseFinancialYear(expectedFinancialYear) : undefined;
+  if (expected && expected.start !== financialYear.start) {
+    invalid.push(`Financial year ${data.financialYear} differs from the batch's ${formatFinancialYear(expected)}`);
+  }
+
+  // A path template's {fy} folder is a second opinion on the year
+  const folderYear = data.pathFields?.fy ? parseFinancialYear(data.pathFields.fy) : undefined;
+  if (folderYear && folderYear.start !== financialYear.start) {
+    suspicious.push(`Financial year ${data.financialYear} differs from ${data.pathFields!.fy} in the folder path`);
+  }
+
+  // A defaulted date is today's and says nothing about the document
+  const issued = parseDocumentDate(data.date);
+  if (issued && data.provenance.date.source !== "default" && issued <= yearEnd(financialYear)) {
+    invalid.push(`Document date ${data.date} is before the financial year ends on 31-Mar-${financialYear.end}`);
+  }
+
+  const periodFrom = parseDocumentDate(data.partA.periodFrom);
+  const periodTo = parseDocumentDate(data.partA.periodTo);
+  if (periodFrom && periodTo && periodFrom > periodTo) {
+    invalid.push(`Period with employer starts (${data.partA.periodFrom}) after it ends (${data.partA.periodTo})`);
+  }
+  if (
+    (periodFrom && (periodFrom < yearStart(financialYear) || periodFrom > yearEnd(financialYear))) ||
+    (periodTo && (periodTo < yearStart(financialYear) || periodTo > yearEnd(financialYear)))
+  ) {
+    invalid.push(
+      `Period with employer ${data.partA.periodFrom || "?"} to ${data.partA.periodTo || "?"} is outside FY ${data.financialYear}`,
+    );
+  }
+
+  const status = invalid.length > 0 ? "invalid" : suspicious.length > 0 ? "suspicious" : "valid";
+  return { status, reasons: [...invalid, ...suspicious] };
+}
+
+// Financial years of a batch with the number of documents in each, most common first
+export function countFinancialYears(documents: Pick<PdfData, "financialYear">[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const { financialYear } of documents) {
+    counts.set(financialYear, (counts.get(financialYear) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+export const mixesFinancialYears = (documents: Pick<PdfData, "financialYear">[]) =>
+  countFinancialYears(documents).length > 1;
@@ -0,0 +1,247 @@
+// ZIP ingestion shared by the dropzone, /api/extract and the CLI. Only the central
+// directory is read up front; each PDF is inflated on demand from its slice of the
+// archive with DecompressionStream (browsers and Node 20 alike), so a large bundle is
+// never unpacked in one go. Nested archives are listed the same way.
+//
+// Paths inside the archive stand in for the dropped folder tree: an archive sits where
+// it was found and its entries continue the path from there. Entries at the root of an
+// archive get the archive's name as their folder, so `Acme/Ann.zip` holding `form16.pdf`
+// yields `Acme/Ann/form16.pdf`, while `Acme.zip` holding `Acme/Ann/form16.pdf` keeps
+// that path as is.
+//
+// A server taking archives from users passes a limit on the bytes they may inflate to, so
+// a ZIP bomb is turned away before anything is inflated: the sizes the central directory
+// declares are added up across nested archives, and an entry that inflates past its
+// declared size fails to read.
+
+export interface ArchivePdf {
+  path: string; // full path, archive folders included
+  fileName: string;
+  employeePath: string;
+  read: () => Promise<Uint8Array>;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ArchiveContents {
+  pdfs: ArchivePdf[];
+  skipped: SkippedEntry[];
+}
+
+interface CentralEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const MAX_U16 = 0xffff;
+const MAX_U32 = 0xffffffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export const isZipFileName = (name: string) => name.toLowerCase().endsWith(".zip");
+export const isPdfFileName = (name: string) => name.toLowerCase().endsWith(".pdf");
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+function corrupt(detail: string): never {
+  throw new Error(`Not a readable ZIP archive: ${detail}`);
+}
+
+// The end-of-central-directory record sits in the last 64 KiB (it may carry a comment)
+async function readCentralDirectoryBounds(blob: Blob): Promise<{ offset: number; size: number; count: number }> {
+  const tailStart = Math.max(0, blob.size - (22 + MAX_U16));
+  const tail = await readBytes(blob, tailStart, blob.size);
+  let position = tail.byteLength - 22;
+  while (position >= 0 && tail.getUint32(position, true) !== EOCD_SIGNATURE) position--;
+  if (position < 0) corrupt("end of central directory not found");
+
+  let count = tail.getUint16(position + 10, true);
+  let size = tail.getUint32(position + 12, true);
+  let offset = tail.getUint32(position + 16, true);
+
+  if (count === MAX_U16 || size === MAX_U32 || offset === MAX_U32) {
+    const locator = position - 20;
+    if (locator < 0 || tail.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) corrupt("ZIP64 locator missing");
+    const recordOffset = Number(tail.getBigUint64(locator + 8, true));
+    const record = await readBytes(blob, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) corrupt("ZIP64 end of central directory missing");
+    count = Number(record.getBigUint64(32, true));
+    size = Number(record.getBigUint64(40, true));
+    offset = Number(record.getBigUint64(48, true));
+  }
+  return { offset, size, count };
+}
+
+async function readCentralDirectory(blob: Blob): Promise<CentralEntry[]> {
+  const { offset, size, count } = await readCentralDirectoryBounds(blob);
+  const directory = await readBytes(blob, offset, offset + size);
+  const decoder = new TextDecoder();
+  const entries: CentralEntry[] = [];
+
+  let position = 0;
+  for (let index = 0; index < count; index++) {
+    if (directory.getUint32(position, true) !== CENTRAL_SIGNATURE) corrupt("bad central directory entry");
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const nameStart = directory.byteOffset + position + 46;
+
+    const entry: CentralEntry = {
+      name: decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength)),
+      flags: directory.getUint16(position + 8, true),
+      method: directory.getUint16(position + 10, true),
+      compressedSize: directory.getUint32(position + 20, true),
+      uncompressedSize: directory.getUint32(position + 24, true),
+      localHeaderOffset: directory.getUint32(position + 42, true),
+    };
+
+    // ZIP64 extra field: the 64-bit values of whichever fields overflowed, in this order
+    let extra = position + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let field = extra + 4;
+        if (entry.uncompressedSize === MAX_U32) {
+          entry.uncompressedSize = Number(directory.getBigUint64(field, true));
+          field += 8;
+        }
+        if (entry.compressedSize === MAX_U32) {
+          entry.compressedSize = Number(directory.getBigUint64(field, true));
+          field += 8;
+        }
+        if (entry.localHeaderOffset === MAX_U32) entry.localHeaderOffset = Number(directory.getBigUint64(field, true));
+      }
+      extra += 4 + length;
+    }
+
+    entries.push(entry);
+    position = extraEnd + commentLength;
+  }
+  return entries;
+}
+
+function openEntry(blob: Blob, entry: CentralEntry): () => Promise<Uint8Array> {
+  return async () => {
+    const header = await readBytes(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.getUint32(0, true) !== LOCAL_SIGNATURE) corrupt(`bad local header for ${entry.name}`);
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = blob.slice(dataStart, dataStart + entry.compressedSize);
+
+    const stream = entry.method === DEFLATED
+      ? data.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+      : data.stream();
+    return new Uint8Array(await new Response(stream.pipeThrough(sizeLimit(entry))).arrayBuffer());
+  };
+}
+
+// Stops inflating once an entry passes the size the central directory declared for it
+function sizeLimit(entry: CentralEntry): TransformStream<Uint8Array, Uint8Array> {
+  let size = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+      if (size > entry.uncompressedSize) {
+        controller.error(new Error(`${entry.name} inflates past its declared size of ${entry.uncompressedSize} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+// Backslashes from Windows archivers, leading slashes and `.`/`..` segments are dropped
+function normalizeEntryName(name: string): string {
+  return name
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+function skipReason(entry: CentralEntry, name: string): string | null {
+  const fileName = name.split("/").pop()!;
+  if (name.startsWith("__MACOSX/") || fileName.startsWith("._")) return "macOS metadata";
+  if (!isPdfFileName(fileName) && !isZipFileName(fileName)) return "not a PDF";
+  if (entry.flags & 1) return "encrypted archive entry";
+  if (entry.method !== STORED && entry.method !== DEFLATED) return `unsupported compression method ${entry.method}`;
+  return null;
+}
+
+// Lists the PDFs in an archive found at `archivePath` (as in webkitRelativePath), along
+// with every entry that was left out and why. Throws when the archive, nested archives
+// included, declares more than `maxInflatedSize` bytes.
+export async function listArchivePdfs(
+  archive: Blob,
+  archivePath: string,
+  maxInflatedSize = Infinity,
+): Promise<ArchiveContents> {
+  return listArchive(archive, archivePath, { remaining: maxInflatedSize, limit: maxInflatedSize });
+}
+
+async function listArchive(
+  archive: Blob,
+  archivePath: string,
+  budget: { remaining: number; limit: number },
+): Promise<ArchiveContents> {
+  const entries = await readCentralDirectory(archive);
+  const declared = entries.reduce((total, entry) => total + entry.uncompressedSize, 0);
+  if (declared > budget.remaining) {
+    throw new Error(`Archive inflates to more than ${Math.round(budget.limit / (1024 * 1024))} MB`);
+  }
+  budget.remaining -= declared;
+
+  const slash = archivePath.lastIndexOf("/");
+  const folder = archivePath.slice(0, slash + 1);
+  const archiveName = archivePath.slice(slash + 1).replace(/\.zip$/i, "");
+
+  const contents: ArchiveContents = { pdfs: [], skipped: [] };
+  for (const entry of entries) {
+    const name = normalizeEntryName(entry.name);
+    if (!name || entry.name.endsWith("/")) continue; // folder entries
+
+    const path = folder + (name.includes("/") ? name : `${archiveName}/${name}`);
+    const reason = skipReason(entry, name);
+    if (reason) {
+      contents.skipped.push({ path: `${archivePath}/${name}`, reason });
+      continue;
+    }
+
+    const read = openEntry(archive, entry);
+    if (isZipFileName(name)) {
+      try {
+        const nested = await listArchive(new Blob([await read()]), path, budget);
+        contents.pdfs.push(...nested.pdfs);
+        contents.skipped.push(...nested.skipped);
+      } catch (error) {
+        contents.skipped.push({ path: `${archivePath}/${name}`, reason: error instanceof Error ? error.message : String(error) });
+      }
+      continue;
+    }
+
+    contents.pdfs.push({
+      path,
+      fileName: path.slice(path.lastIndexOf("/") + 1),
+      employeePath: path.slice(0, path.lastIndexOf("/")),
+      read,
+    });
+  }
+  return contents;
+}
@@ -49,22 +49,16 @@ const PdfReader = () => {
       fileReader.onload = function() {
         const typedArray = new Uint8Array(this.result as ArrayBuffer);
         
-        // Load PDF.js from CDN if not already loaded
-        const loadPdfJs = () => {
-          return new Promise<void>((resolveLoad) => {
-            if ((window as any).pdfjsLib) {
-              resolveLoad();
-              return;
-            }
-            
-            const script = document.createElement('script');
-            script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.min.js';
-            script.onload = () => {
-              (window as any).pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.worker.min.js';
-              resolveLoad();
-            };
-            document.head.appendChild(script);
-          });
+        // Load the bundled PDF.js if not already loaded
+        const loadPdfJs = async () => {
+          if ((window as any).pdfjsLib) return;
+
+          const [pdfjsLib, { default: workerSrc }] = await Promise.all([
+            import('pdfjs-dist'),
+            import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+          ]);
+          pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+          (window as any).pdfjsLib = pdfjsLib;
         };
         
         loadPdfJs().then(() => {
@@ -1,11 +1,11 @@
 // Utility to extract PAN from the first page of a PDF using pdf.js (browser-compatible, no Buffer)
 // Usage: extractPanFromPdf(file: File | ArrayBuffer): Promise<string | null>
 
-import * as pdfjsLib from 'pdfjs-dist/build/pdf';
-import 'pdfjs-dist/build/pdf.worker.entry';
+import * as pdfjsLib from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
-(pdfjsLib as any).GlobalWorkerOptions.workerSrc =
-  'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/2.11.338/pdf.worker.min.js';
+// Same bundled pdf.js version and worker as client/src/services/pdfJsLoader.ts
+pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
 
 export async function extractPanFromPdf(file: File | ArrayBuffer): Promise<string | null> {
   let arrayBuffer: ArrayBuffer;
@@ -2,11 +2,14 @@
 // Usage: extractPdfText(file: File | ArrayBuffer): Promise<string>
 
 import { createWorker } from 'tesseract.js';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
-// Dynamically import pdfjs-dist only when needed (for browser/webpack compatibility)
+// Dynamically import pdfjs-dist only when needed; the worker is the bundled one of the
+// same version, as in client/src/services/pdfJsLoader.ts
 const getPdfjs = async () => {
-  // @ts-ignore
-  return await import('pdfjs-dist/build/pdf');
+  const pdfjsLib = await import('pdfjs-dist');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjsLib;
 };
 
 export async function extractPdfText(file: File | ArrayBuffer): Promise<string> {
@@ -20,10 +23,6 @@ export async function extractPdfText(file: File | ArrayBuffer): Promise<string>
   // Try pdf.js text extraction first
   try {
     const pdfjsLib = await getPdfjs();
-    pdfjsLib.GlobalWorkerOptions.workerSrc =
-      // @ts-ignore
-      pdfjsLib.GlobalWorkerOptions.workerSrc ||
-      'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     let text = '';
     for (let i = 1; i <= pdf.numPages; i++) {
@@ -1,4 +1,4 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
@@ -6,10 +6,26 @@ import { fileURLToPath } from "url";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// VITE_OFFLINE_MODE=true builds a client that makes no third-party requests
+const offlineMode = process.env.VITE_OFFLINE_MODE === "true";
+
+// Replit's banner, shown when the dev build is opened outside Replit, is a remote script
+const replitDevBanner = (): Plugin => ({
+  name: "replit-dev-banner",
+  transformIndexHtml: () => [
+    {
+      tag: "script",
+      attrs: { type: "text/javascript", src: "https://replit.com/public/js/replit-dev-banner.js" },
+      injectTo: "body",
+    },
+  ],
+});
+
 export default defineConfig({
   plugins: [
     react(),
     runtimeErrorOverlay(),
+    ...(offlineMode ? [] : [replitDevBanner()]),
     ...(process.env.NODE_ENV !== "production" &&
     process.env.REPL_ID !== undefined
       ? [